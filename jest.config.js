@@ -0,0 +1,11 @@
+module.exports = {
+  preset:          "ts-jest",
+  testEnvironment: "jsdom",
+  roots:           ["<rootDir>/src"],
+  testMatch:       ["**/__tests__/**/*.test.ts"],
+  globals:         {
+    "ts-jest": {
+      tsconfig: "tsconfig.test.json",
+    },
+  },
+};
@@ -1,5 +1,4 @@
 import { terser } from "rollup-plugin-terser";
-import nodePolyfills from "rollup-plugin-polyfill-node";
 
 export default {
   input: "./dist/node/web-eid.js",
@@ -40,10 +39,4 @@ export default {
     },
   ],
   external: ["qrcode"],
-  plugins:  [
-    nodePolyfills(
-      {
-        include: ["https"],
-      }),
-  ],
 };
@@ -20,11 +20,42 @@
  * SOFTWARE.
  */
 
-export default Object.freeze({
-  VERSION:                          "1.0.1",
-  EXTENSION_HANDSHAKE_TIMEOUT:      1000,          // 1 second
-  NATIVE_APP_HANDSHAKE_TIMEOUT:     5 * 1000,      // 5 seconds
-  DEFAULT_USER_INTERACTION_TIMEOUT: 2 * 60 * 1000, // 2 minutes
-  DEFAULT_SERVER_REQUEST_TIMEOUT:   20 * 1000,     // 20 seconds
-  AUTH_APP_INTENT_URL_BASE:         "authapp://start/",
+import ConcurrencyPolicy from "./models/ConcurrencyPolicy";
+
+export interface Config {
+  VERSION:                            string;
+  EXTENSION_HANDSHAKE_TIMEOUT:        number;
+  NATIVE_APP_HANDSHAKE_TIMEOUT:       number;
+  DETECTION_TIMEOUT:                  number;
+  DEFAULT_USER_INTERACTION_TIMEOUT:   number;
+  DEFAULT_SERVER_REQUEST_TIMEOUT:     number;
+  DEFAULT_POLLING_INTERVAL:           number;
+  DEFAULT_POLLING_BACKOFF_MULTIPLIER: number;
+  DEFAULT_MAX_POLLING_INTERVAL:       number;
+  AUTH_APP_INTENT_URL_BASE:           string;
+  AUTH_APP_COMPACT_INTENT_URL:        boolean;
+  AUTH_APP_PACKAGE_NAME:              string;
+  AUTH_APP_FALLBACK_URL:              string;
+  DEFAULT_QR_CODE_REFRESH_INTERVAL:   number;
+  DEFAULT_CONCURRENCY_POLICY:         ConcurrencyPolicy;
+}
+
+const config: Readonly<Config> = Object.freeze({
+  VERSION:                            "1.0.1",
+  EXTENSION_HANDSHAKE_TIMEOUT:        1000,          // 1 second
+  NATIVE_APP_HANDSHAKE_TIMEOUT:       5 * 1000,      // 5 seconds
+  DETECTION_TIMEOUT:                  1000,          // 1 second
+  DEFAULT_USER_INTERACTION_TIMEOUT:   2 * 60 * 1000, // 2 minutes
+  DEFAULT_SERVER_REQUEST_TIMEOUT:     20 * 1000,     // 20 seconds
+  DEFAULT_POLLING_INTERVAL:           1000,          // 1 second
+  DEFAULT_POLLING_BACKOFF_MULTIPLIER: 1.5,
+  DEFAULT_MAX_POLLING_INTERVAL:       10 * 1000,     // 10 seconds
+  AUTH_APP_INTENT_URL_BASE:           "authapp://start/",
+  AUTH_APP_COMPACT_INTENT_URL:        false,
+  AUTH_APP_PACKAGE_NAME:              "",            // Launch with an authapp:// deep link
+  AUTH_APP_FALLBACK_URL:              "",            // Play Store page of AUTH_APP_PACKAGE_NAME
+  DEFAULT_QR_CODE_REFRESH_INTERVAL:   0,             // Not refreshed
+  DEFAULT_CONCURRENCY_POLICY:         ConcurrencyPolicy.REJECT,
 });
+
+export default config;
@@ -27,22 +27,24 @@ enum ErrorCode {
   ERR_WEBEID_SERVER_TIMEOUT = "ERR_WEBEID_SERVER_TIMEOUT",
 
   // Health errors
-  ERR_WEBEID_VERSION_MISMATCH       = "ERR_WEBEID_VERSION_MISMATCH",
-  ERR_WEBEID_VERSION_INVALID        = "ERR_WEBEID_VERSION_INVALID",
-  ERR_WEBEID_EXTENSION_UNAVAILABLE  = "ERR_WEBEID_EXTENSION_UNAVAILABLE",
-  ERR_WEBEID_NATIVE_UNAVAILABLE     = "ERR_WEBEID_NATIVE_UNAVAILABLE",
-  ERR_WEBEID_UNKNOWN_ERROR          = "ERR_WEBEID_UNKNOWN_ERROR",
-  ERR_WEBEID_AUTH_APP_NOT_INSTALLED = "ERR_WEBEID_AUTH_APP_NOT_INSTALLED",
-  ERR_WEBEID_USER_PIN_ERROR         = "ERR_WEBEID_USER_PIN_ERROR",
+  ERR_WEBEID_VERSION_MISMATCH        = "ERR_WEBEID_VERSION_MISMATCH",
+  ERR_WEBEID_VERSION_INVALID         = "ERR_WEBEID_VERSION_INVALID",
+  ERR_WEBEID_EXTENSION_UNAVAILABLE   = "ERR_WEBEID_EXTENSION_UNAVAILABLE",
+  ERR_WEBEID_NATIVE_UNAVAILABLE      = "ERR_WEBEID_NATIVE_UNAVAILABLE",
+  ERR_WEBEID_UNKNOWN_ERROR           = "ERR_WEBEID_UNKNOWN_ERROR",
+  ERR_WEBEID_AUTH_APP_NOT_INSTALLED  = "ERR_WEBEID_AUTH_APP_NOT_INSTALLED",
+  ERR_WEBEID_USER_PIN_ERROR          = "ERR_WEBEID_USER_PIN_ERROR",
+  ERR_WEBEID_ENVIRONMENT_UNSUPPORTED = "ERR_WEBEID_ENVIRONMENT_UNSUPPORTED",
 
   // Security errors
-  ERR_WEBEID_CONTEXT_INSECURE        = "ERR_WEBEID_CONTEXT_INSECURE",
-  ERR_WEBEID_PROTOCOL_INSECURE       = "ERR_WEBEID_PROTOCOL_INSECURE",
-  ERR_WEBEID_TLS_CONNECTION_BROKEN   = "ERR_WEBEID_TLS_CONNECTION_BROKEN",
-  ERR_WEBEID_TLS_CONNECTION_INSECURE = "ERR_WEBEID_TLS_CONNECTION_INSECURE",
-  ERR_WEBEID_TLS_CONNECTION_WEAK     = "ERR_WEBEID_TLS_CONNECTION_WEAK",
-  ERR_WEBEID_CERTIFICATE_CHANGED     = "ERR_WEBEID_CERTIFICATE_CHANGED",
-  ERR_WEBEID_ORIGIN_MISMATCH         = "ERR_WEBEID_ORIGIN_MISMATCH",
+  ERR_WEBEID_CONTEXT_INSECURE         = "ERR_WEBEID_CONTEXT_INSECURE",
+  ERR_WEBEID_PROTOCOL_INSECURE        = "ERR_WEBEID_PROTOCOL_INSECURE",
+  ERR_WEBEID_TLS_CONNECTION_BROKEN    = "ERR_WEBEID_TLS_CONNECTION_BROKEN",
+  ERR_WEBEID_TLS_CONNECTION_INSECURE  = "ERR_WEBEID_TLS_CONNECTION_INSECURE",
+  ERR_WEBEID_TLS_CONNECTION_WEAK      = "ERR_WEBEID_TLS_CONNECTION_WEAK",
+  ERR_WEBEID_CERTIFICATE_CHANGED      = "ERR_WEBEID_CERTIFICATE_CHANGED",
+  ERR_WEBEID_ORIGIN_MISMATCH          = "ERR_WEBEID_ORIGIN_MISMATCH",
+  ERR_WEBEID_INTENT_SIGNATURE_INVALID = "ERR_WEBEID_INTENT_SIGNATURE_INVALID",
 
   // Third party errors
   ERR_WEBEID_SERVER_REJECTED         = "ERR_WEBEID_SERVER_REJECTED",
@@ -51,8 +53,11 @@ enum ErrorCode {
   ERR_WEBEID_NATIVE_FATAL            = "ERR_WEBEID_NATIVE_FATAL",
 
   // Developer mistakes
-  ERR_WEBEID_ACTION_PENDING    = "ERR_WEBEID_ACTION_PENDING",
-  ERR_WEBEID_MISSING_PARAMETER = "ERR_WEBEID_MISSING_PARAMETER",
+  ERR_WEBEID_ACTION_PENDING       = "ERR_WEBEID_ACTION_PENDING",
+  ERR_WEBEID_ACTION_ABORTED       = "ERR_WEBEID_ACTION_ABORTED",
+  ERR_WEBEID_MISSING_PARAMETER    = "ERR_WEBEID_MISSING_PARAMETER",
+  ERR_WEBEID_INVALID_PARAMETER    = "ERR_WEBEID_INVALID_PARAMETER",
+  ERR_WEBEID_QR_CODE_NOT_RENDERED = "ERR_WEBEID_QR_CODE_NOT_RENDERED",
 }
 
 export default ErrorCode;
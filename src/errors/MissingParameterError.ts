@@ -24,11 +24,16 @@ import ErrorCode from "./ErrorCode";
 
 export default class MissingParameterError extends Error {
   public code: ErrorCode;
+  public parameter?: string;
 
-  constructor(message: string) {
+  constructor(message: string, parameter?: string) {
     super(message);
 
     this.name = this.constructor.name;
     this.code = ErrorCode.ERR_WEBEID_MISSING_PARAMETER;
+
+    if (parameter) {
+      this.parameter = parameter;
+    }
   }
 }
@@ -21,14 +21,20 @@
  */
 
 import ErrorCode from "./ErrorCode";
+import TimeoutPhase from "../models/TimeoutPhase";
 
 export default class ServerTimeoutError extends Error {
   public code: ErrorCode;
+  public phase?: TimeoutPhase;
 
-  constructor(message = "server failed to respond in time") {
+  constructor(message = "server failed to respond in time", phase?: TimeoutPhase) {
     super(message);
 
     this.name = this.constructor.name;
     this.code = ErrorCode.ERR_WEBEID_SERVER_TIMEOUT;
+
+    if (phase) {
+      this.phase = phase;
+    }
   }
 }
@@ -21,14 +21,20 @@
  */
 
 import ErrorCode from "./ErrorCode";
+import TimeoutPhase from "../models/TimeoutPhase";
 
 export default class UserTimeoutError extends Error {
   public code: ErrorCode;
+  public phase?: TimeoutPhase;
 
-  constructor(message = "user failed to respond in time") {
+  constructor(message = "user failed to respond in time", phase?: TimeoutPhase) {
     super(message);
 
     this.name = this.constructor.name;
     this.code = ErrorCode.ERR_WEBEID_USER_TIMEOUT;
+
+    if (phase) {
+      this.phase = phase;
+    }
   }
 }
@@ -26,15 +26,19 @@ enum Action {
   STATUS_SUCCESS = "web-eid:status-success",
   STATUS_FAILURE = "web-eid:status-failure",
 
-  AUTHENTICATE         = "web-eid:authenticate",
-  AUTHENTICATE_ACK     = "web-eid:authenticate-ack",
-  AUTHENTICATE_SUCCESS = "web-eid:authenticate-success",
-  AUTHENTICATE_FAILURE = "web-eid:authenticate-failure",
+  AUTHENTICATE          = "web-eid:authenticate",
+  AUTHENTICATE_ACK      = "web-eid:authenticate-ack",
+  AUTHENTICATE_SUCCESS  = "web-eid:authenticate-success",
+  AUTHENTICATE_FAILURE  = "web-eid:authenticate-failure",
+  AUTHENTICATE_PROGRESS = "web-eid:authenticate-progress",
 
-  SIGN         = "web-eid:sign",
-  SIGN_ACK     = "web-eid:sign-ack",
-  SIGN_SUCCESS = "web-eid:sign-success",
-  SIGN_FAILURE = "web-eid:sign-failure",
+  SIGN          = "web-eid:sign",
+  SIGN_ACK      = "web-eid:sign-ack",
+  SIGN_SUCCESS  = "web-eid:sign-success",
+  SIGN_FAILURE  = "web-eid:sign-failure",
+  SIGN_PROGRESS = "web-eid:sign-progress",
+
+  CANCEL = "web-eid:cancel",
 }
 
 export default Action;
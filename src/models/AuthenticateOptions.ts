@@ -20,6 +20,10 @@
  * SOFTWARE.
  */
 
+import Progress from "./Progress";
+import ConcurrencyPolicy from "./ConcurrencyPolicy";
+import Timeouts from "./Timeouts";
+
 export default interface AuthenticateOptions {
   /**
    * Authentication challenge GET request URL
@@ -62,13 +66,60 @@ export default interface AuthenticateOptions {
    * This URL should accept a GET request which contains the headers set in the headers object.
    *
    * If backend has received the valid authentication token from the Android authentication app, successful login web-
-   * page should be returned.
+   * page should be returned with a 200 status code.
+   *
+   * If the token has not been received by the backend yet, the server should respond with a 202 or 204 status code,
+   * the request is then repeated with exponential backoff until the user interaction times out.
    *
-   * If the token was not received by the backend or if the token was invalid, the server should respond with an
-   * appropriate HTTP error status code and an optional JSON payload.
+   * If the token was invalid, the server should respond with an appropriate HTTP error status code
+   * and an optional JSON payload.
    */
   getAuthSuccessUrl?: string;
 
+  /**
+   * Authentication events URL
+   *
+   * Server-Sent Events (https:) or WebSocket (wss:) URL, where the server sends the outcome
+   * of the Android authentication app operation as soon as it is known, instead of waiting for the next poll.
+   * If the channel closes before the outcome is received, getAuthSuccessUrl is polled instead.
+   *
+   * @example
+   *   // Example messages from the server
+   *   {"result": "success", "body": {"name": "John Smith"}}
+   *   {"result": "failure", "error": {"code": "ERR_WEBEID_USER_CANCELLED"}}
+   */
+  authEventsUrl?: string;
+
+  /**
+   * Time in milliseconds between the first and the second getAuthSuccessUrl request.
+   *
+   * When not specified, defaults to 1 second.
+   */
+  pollingInterval?: number;
+
+  /**
+   * Factor by which the time between getAuthSuccessUrl requests grows after each request.
+   *
+   * When not specified, defaults to 1.5.
+   */
+  pollingBackoffMultiplier?: number;
+
+  /**
+   * Upper limit in milliseconds for the time between getAuthSuccessUrl requests.
+   *
+   * When not specified, defaults to 10 seconds.
+   */
+  maxPollingInterval?: number;
+
+  /**
+   * Whether the getAuthSuccessUrl requests send cookies, the credentials mode of fetch.
+   * Use "include" when the outcome is polled from another origin which identifies the session with a cookie,
+   * the server then has to allow credentials with CORS.
+   *
+   * When not specified, defaults to "same-origin".
+   */
+  pollingCredentials?: RequestCredentials;
+
   /**
    * Boolean to decide which application to use for the authentication request.
    *
@@ -114,4 +165,82 @@ export default interface AuthenticateOptions {
    * If translations exist for the given language, then the user interface will be displayed in this language.
    */
   lang?: string;
+
+  /**
+   * Base64url-encoded signature or MAC issued by the server over IntentUrl.canonicalPayload of the authentication request.
+   *
+   * When specified, it is appended to the intent URL of the Android authentication app,
+   * so the app can reject intents whose parameters have been modified, see verifyIntentUrl.
+   */
+  intentSignature?: string;
+
+  /**
+   * Package name of the Android authentication app, for example "ee.ria.authapp".
+   *
+   * When specified, the app on the same Android device is launched with an Android intent URL,
+   * which sends users without the app to authAppFallbackUrl or the Play Store page of the package.
+   *
+   * When not specified, defaults to config.AUTH_APP_PACKAGE_NAME, which launches the app with a deep link.
+   */
+  authAppPackageName?: string;
+
+  /**
+   * HTTP(S) URL of the page users without the Android authentication app are sent to, used with authAppPackageName.
+   *
+   * When not specified, defaults to config.AUTH_APP_FALLBACK_URL, which sends the users to the Play Store.
+   */
+  authAppFallbackUrl?: string;
+
+  /**
+   * Pairing endpoint URL
+   *
+   * When specified, the QR code for the Android authentication app holds only a short-lived pairing session ID
+   * and this URL instead of the IntentUrl, so the endpoints and the headers are not visible in the QR code.
+   * The session is created with a POST request to this URL and the app exchanges it for the IntentUrl.
+   *
+   * @example
+   *   // Example request payload
+   *   {"intentUrl": "authapp://start/?v=1&action=web-eid%3Aauthenticate&..."}
+   *
+   *   // Example response from the server, expiresIn is in seconds
+   *   {"sessionId": "<ID>", "expiresIn": 60}
+   */
+  pairingUrl?: string;
+
+  /**
+   * Time in milliseconds after which the QR code for the Android authentication app is replaced with a new one.
+   *
+   * The replaced QR codes can no longer be used, as the pairing session is refreshed, so pairingUrl is required.
+   * The QR code is also refreshed before the session expires.
+   *
+   * When not specified, defaults to config.DEFAULT_QR_CODE_REFRESH_INTERVAL, which doesn't refresh the QR code.
+   */
+  qrCodeRefreshInterval?: number;
+
+  /**
+   * Signal for aborting the operation.
+   *
+   * When the signal is aborted, the operation is cancelled and the returned promise rejects with ActionAbortedError.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called each time the operation reaches a new phase,
+   * for example when the QR code is displayed or the user is asked for the PIN.
+   */
+  onProgress?: (progress: Progress) => void;
+
+  /**
+   * What to do when a authentication is already pending, for example when the user double-clicks.
+   *
+   * When not specified, defaults to config.DEFAULT_CONCURRENCY_POLICY, which rejects with ActionPendingError.
+   */
+  concurrency?: ConcurrencyPolicy;
+
+  /**
+   * Time in milliseconds each phase of the authentication may take.
+   *
+   * When not specified, the phases are timed with serverRequestTimeout and userInteractionTimeout.
+   */
+  timeouts?: Partial<Timeouts>;
 }
@@ -0,0 +1,48 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * What to do when an operation is started while an operation with the same action is pending.
+ */
+enum ConcurrencyPolicy {
+  /**
+   * Reject the new operation with ActionPendingError.
+   */
+  REJECT  = "reject",
+
+  /**
+   * Start the new operation after the pending one settles.
+   */
+  QUEUE   = "queue",
+
+  /**
+   * Abort the pending operation with ActionAbortedError and start the new one.
+   */
+  REPLACE = "replace",
+
+  /**
+   * Return the promise of the pending operation when the options are identical, otherwise reject with ActionPendingError.
+   */
+  JOIN    = "join",
+}
+
+export default ConcurrencyPolicy;
@@ -1,8 +1,108 @@
 import MissingParameterError from "../errors/MissingParameterError";
+import InvalidParameterError from "../errors/InvalidParameterError";
+import Action from "./Action";
 import Message from "./Message";
 import config from "../config";
+import { deflateRaw, inflateRaw } from "../utils/deflate";
+import { decodeBase45, encodeBase45 } from "../utils/base45";
+
+type FieldType = "url" | "string" | "number" | "headers";
+
+type FieldValue = string | number | { [key: string]: string };
+
+/**
+ * Optional parameters of the IntentUrl.
+ */
+interface IntentUrlFields {
+  getAuthChallengeUrl?: string;
+  postAuthTokenUrl?: string;
+  postPrepareSigningUrl?: string;
+  postFinalizeSigningUrl?: string;
+  applicationName?: string;
+  actionDescription?: string;
+  headers?: {
+    [key: string]: string;
+  };
+  userInteractionTimeout?: number;
+  serverRequestTimeout?: number;
+  lang?: string;
+}
+
+type FieldName = keyof IntentUrlFields;
+
+/**
+ * Optional parameters of the IntentUrl and their types, in the order of encoding.
+ */
+const fieldTypes: { [field in FieldName]: FieldType } = {
+  getAuthChallengeUrl:    "url",
+  postAuthTokenUrl:       "url",
+  postPrepareSigningUrl:  "url",
+  postFinalizeSigningUrl: "url",
+  applicationName:        "string",
+  actionDescription:      "string",
+  headers:                "headers",
+  userInteractionTimeout: "number",
+  serverRequestTimeout:   "number",
+  lang:                   "string",
+};
+
+const fields = Object.keys(fieldTypes) as FieldName[];
+
+/**
+ * Options of the Android intent form of the IntentUrl.
+ */
+export interface AndroidIntentOptions {
+  /**
+   * Package name of the authentication app, for example ee.ria.authapp.
+   */
+  packageName: string;
+
+  /**
+   * Page opened by the browser when the app is not installed, for example an install page.
+   *
+   * When not specified, Chrome opens the Play Store page of the package.
+   */
+  fallbackUrl?: string;
+
+  /**
+   * Base of the URL, which provides the scheme, host and path of the intent.
+   *
+   * When not specified, defaults to config.AUTH_APP_INTENT_URL_BASE.
+   */
+  base?: string;
+}
+
+const requiredFields: { [action: string]: FieldName[] } = {
+  [Action.AUTHENTICATE]: ["getAuthChallengeUrl", "postAuthTokenUrl"],
+  [Action.SIGN]:         ["postPrepareSigningUrl", "postFinalizeSigningUrl"],
+};
+
+/**
+ * Parameters of an authentication app operation, encoded into a URL for the app.
+ *
+ * The URL consists of the base, for example authapp://start/, and a query string with the schema version v,
+ * the action and the optional parameters. Values are percent-encoded, headers are encoded as a JSON object.
+ * An expiry time, expiresAt, may follow the canonical payload.
+ * A signature issued by the server over the canonical payload may follow as the last parameter.
+ *
+ * In the compact form, the query string is compressed with raw DEFLATE, encoded with Base45 and passed
+ * in the z parameter, for example authapp://start/?z=<Base45>. The Base45 alphabet is the QR code alphanumeric
+ * character set, which makes the QR code smaller, but the z parameter is not percent-encoded.
+ *
+ * In the Android intent form, intent://start/?<query>#Intent;scheme=authapp;package=<package>;end, Chrome launches
+ * the app with the given package or, when it is not installed, opens the fallback URL or the Play Store.
+ */
+export default class IntentUrl implements IntentUrlFields {
+  /**
+   * Version of the encoding, the v parameter of the URL.
+   */
+  static readonly VERSION = 1;
+
+  /**
+   * Parameter of the compact form, which holds the compressed query string.
+   */
+  static readonly COMPACT_PARAMETER = "z";
 
-export default class IntentUrl {
   action: string;
   getAuthChallengeUrl?: string;
   postAuthTokenUrl?: string;
@@ -17,64 +117,281 @@ export default class IntentUrl {
   serverRequestTimeout?: number;
   lang?: string;
 
+  /**
+   * Base64url-encoded signature or MAC of the canonical payload, issued by the server.
+   */
+  signature?: string;
+
+  /**
+   * Time in milliseconds since the epoch, after which the app should reject the intent.
+   *
+   * It is not covered by the signature, so it can't be relied on to reject a stale intent.
+   */
+  expiresAt?: number;
 
   constructor(message: Message) {
     this.action = message.action;
-    if (message.getAuthChallengeUrl) {
-      this.getAuthChallengeUrl = message.getAuthChallengeUrl;
+
+    if (message.expiresAt != null) {
+      this.expiresAt = message.expiresAt;
     }
-    if (message.postAuthTokenUrl) {
-      this.postAuthTokenUrl = message.postAuthTokenUrl;
+
+    if (message.intentSignature != null) {
+      this.signature = message.intentSignature;
     }
-    if (message.headers) {
-      this.headers = message.headers;
+
+    // Empty values, for example a timeout of 0, are left out like in the unversioned encoding
+    for (const field of fields) {
+      if (message[field]) {
+        Object.assign(this, { [field]: message[field] });
+      }
     }
-    if (message.postPrepareSigningUrl) {
-      this.postPrepareSigningUrl = message.postPrepareSigningUrl;
+
+    this.validate();
+  }
+
+  /**
+   * Rebuilds an IntentUrl from its string form and validates it.
+   *
+   * @throws MissingParameterError when a required parameter is missing
+   * @throws InvalidParameterError when a parameter is malformed or the version is not supported
+   */
+  static parse(url: string): IntentUrl {
+    // The fragment of the Android intent form holds the intent extras, which are not parameters of the operation
+    const fragmentStart = url.indexOf("#");
+    const queryEnd      = fragmentStart == -1 ? url.length : fragmentStart;
+    const queryStart    = url.lastIndexOf("?", queryEnd);
+    const compact       = IntentUrl.COMPACT_PARAMETER + "=";
+
+    let query = queryStart == -1 ? "" : url.slice(queryStart + 1, queryEnd);
+
+    if (query.startsWith(compact)) {
+      query = IntentUrl.decompress(query.slice(compact.length));
     }
-    if (message.postFinalizeSigningUrl) {
-      this.postFinalizeSigningUrl = message.postFinalizeSigningUrl;
+
+    const params: { [key: string]: string } = {};
+
+    for (const pair of query.split("&").filter(Boolean)) {
+      const separator = pair.indexOf("=");
+      const key       = separator == -1 ? pair : pair.slice(0, separator);
+      const value     = separator == -1 ? "" : pair.slice(separator + 1);
+
+      try {
+        params[decodeURIComponent(key)] = decodeURIComponent(value);
+      } catch (error) {
+        throw new InvalidParameterError(`${key} is not correctly percent-encoded in IntentUrl`, key);
+      }
     }
-    if (message.applicationName) {
-      this.applicationName = message.applicationName;
+
+    if (!params.v) {
+      throw new MissingParameterError("v missing from IntentUrl", "v");
     }
-    if (message.actionDescription) {
-      this.actionDescription = message.actionDescription;
+
+    if (params.v !== String(IntentUrl.VERSION)) {
+      throw new InvalidParameterError(`IntentUrl version ${params.v} is not supported`, "v");
     }
-    if (message.userInteractionTimeout) {
-      this.userInteractionTimeout = message.userInteractionTimeout;
+
+    const message: Message = { action: params.action };
+
+    for (const field of fields) {
+      if (params[field] != null) {
+        message[field] = IntentUrl.parseValue(field, fieldTypes[field], params[field]);
+      }
     }
-    if (message.serverRequestTimeout) {
-      this.serverRequestTimeout = message.serverRequestTimeout;
+
+    if (params.expiresAt != null) {
+      message.expiresAt = IntentUrl.parseValue("expiresAt", "number", params.expiresAt);
     }
-    if (message.lang) {
-      this.lang = message.lang;
+
+    if (params.signature != null) {
+      message.intentSignature = params.signature;
     }
-    this.validate();
+
+    return new IntentUrl(message);
   }
 
+  private static decompress(payload: string): string {
+    try {
+      return String.fromCharCode(...Array.from(inflateRaw(decodeBase45(payload))));
+    } catch (error) {
+      throw new InvalidParameterError(
+        `${IntentUrl.COMPACT_PARAMETER} is not a Base45-encoded compressed query string in IntentUrl`,
+        IntentUrl.COMPACT_PARAMETER,
+      );
+    }
+  }
+
+  private static parseValue(field: string, type: FieldType, value: string): FieldValue {
+    switch (type) {
+      case "number": {
+        if (!/^\d+$/.test(value)) {
+          throw new InvalidParameterError(`${field} must be a positive integer in IntentUrl`, field);
+        }
+
+        return parseInt(value, 10);
+      }
+
+      case "headers": {
+        try {
+          return JSON.parse(value);
+        } catch (error) {
+          throw new InvalidParameterError(`${field} must be a JSON object in IntentUrl`, field);
+        }
+      }
+
+      default: {
+        return value;
+      }
+    }
+  }
+
+  /**
+   * @throws MissingParameterError when a required parameter is missing
+   * @throws InvalidParameterError when a parameter is malformed
+   */
   validate(): void {
-    if (this.action == null || ((this.getAuthChallengeUrl == null || this.postAuthTokenUrl == null) && (this.postFinalizeSigningUrl == null || this.postPrepareSigningUrl == null))) {
-      throw new MissingParameterError("Missing parameters for IntentUrl.");
+    if (!this.action) {
+      throw new MissingParameterError("action missing from IntentUrl", "action");
+    }
+
+    if (!requiredFields[this.action]) {
+      throw new InvalidParameterError(`action ${this.action} is not supported by IntentUrl`, "action");
+    }
+
+    for (const field of requiredFields[this.action]) {
+      if (this[field] == null) {
+        throw new MissingParameterError(`${field} missing from IntentUrl`, field);
+      }
+    }
+
+    for (const field of fields) {
+      const value = this[field];
+
+      if (value != null && !IntentUrl.isValid(fieldTypes[field], value)) {
+        throw new InvalidParameterError(`${field} is malformed in IntentUrl`, field);
+      }
+    }
+
+    if (this.expiresAt != null && !IntentUrl.isValid("number", this.expiresAt)) {
+      throw new InvalidParameterError("expiresAt is malformed in IntentUrl", "expiresAt");
+    }
+
+    if (this.signature != null && !/^[\w-]+$/.test(this.signature)) {
+      throw new InvalidParameterError("signature must be base64url-encoded in IntentUrl", "signature");
+    }
+  }
+
+  private static isValid(type: FieldType, value: unknown): boolean {
+    switch (type) {
+      case "url": {
+        try {
+          return typeof value == "string" && !!new URL(value);
+        } catch (error) {
+          return false;
+        }
+      }
+
+      case "number": {
+        return typeof value == "number" && Number.isInteger(value) && value > 0;
+      }
+
+      case "headers": {
+        return (
+          typeof value == "object" &&
+          value !== null &&
+          !Array.isArray(value) &&
+          Object.values(value as { [key: string]: unknown }).every((header) => typeof header == "string")
+        );
+      }
+
+      default: {
+        return typeof value == "string";
+      }
     }
   }
 
-  toString(): string {
-    let url = config.AUTH_APP_INTENT_URL_BASE;
+  /**
+   * Whether the intent has expired, because a newer QR code has replaced it.
+   */
+  isExpired(now = Date.now()): boolean {
+    return this.expiresAt != null && this.expiresAt <= now;
+  }
+
+  /**
+   * The query string without expiresAt and the signature, which the signature is calculated over.
+   *
+   * The parameters are v, action and the optional parameters in the order of getAuthChallengeUrl, postAuthTokenUrl,
+   * postPrepareSigningUrl, postFinalizeSigningUrl, applicationName, actionDescription, headers, userInteractionTimeout,
+   * serverRequestTimeout and lang, the values are encoded with encodeURIComponent and the parameters joined with &.
+   */
+  canonicalPayload(): string {
+    const params: Array<[string, string]> = [
+      ["v", String(IntentUrl.VERSION)],
+      ["action", this.action],
+    ];
+
+    for (const field of fields) {
+      const value = this[field];
+
+      if (value != null) {
+        params.push([field, fieldTypes[field] == "headers" ? JSON.stringify(value) : String(value)]);
+      }
+    }
+
+    return params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join("&");
+  }
+
+  /**
+   * The query string, including expiresAt and the signature.
+   */
+  private query(): string {
+    const expiresAt = this.expiresAt != null ? `&expiresAt=${this.expiresAt}` : "";
+    const signature = this.signature ? `&signature=${this.signature}` : "";
+
+    return this.canonicalPayload() + expiresAt + signature;
+  }
+
+  /**
+   * The query string compressed and Base45-encoded, the value of the z parameter of the compact form.
+   */
+  compactPayload(): string {
+    return encodeBase45(deflateRaw(Uint8Array.from(this.query(), (char) => char.charCodeAt(0))));
+  }
 
-    url += "?action=\"" + this.action + "\"";
+  toString(base = config.AUTH_APP_INTENT_URL_BASE): string {
+    return base + "?" + this.query();
+  }
+
+  toCompactString(base = config.AUTH_APP_INTENT_URL_BASE): string {
+    return `${base}?${IntentUrl.COMPACT_PARAMETER}=${this.compactPayload()}`;
+  }
+
+  /**
+   * @throws InvalidParameterError when the package name, the fallback URL or the base is malformed
+   */
+  toAndroidIntentString(options: AndroidIntentOptions): string {
+    const { packageName, fallbackUrl, base = config.AUTH_APP_INTENT_URL_BASE } = options;
+
+    const [, scheme, rest] = /^([a-z][a-z\d+.-]*):\/\/(.*)$/i.exec(base) || [];
+
+    if (!scheme) {
+      throw new InvalidParameterError(`base ${base} of the Android intent URL must be an absolute URL`, "base");
+    }
+
+    if (!/^[a-z]\w*(\.[a-z]\w*)+$/i.test(packageName)) {
+      throw new InvalidParameterError(`packageName ${packageName} of the Android intent URL is malformed`, "packageName");
+    }
 
-    url += this.getAuthChallengeUrl ? "&getAuthChallengeUrl=\"" + encodeURIComponent(this.getAuthChallengeUrl) + "\"" : "";
-    url += this.postAuthTokenUrl ? "&postAuthTokenUrl=\"" + encodeURIComponent(this.postAuthTokenUrl) + "\"" : "";
-    url += this.postPrepareSigningUrl ? "&postPrepareSigningUrl=\"" + encodeURIComponent(this.postPrepareSigningUrl) + "\"" : "";
-    url += this.postFinalizeSigningUrl ? "&postFinalizeSigningUrl=\"" + encodeURIComponent(this.postFinalizeSigningUrl) + "\"" : "";
-    url += this.applicationName ? "&applicationName=\"" + encodeURIComponent(this.applicationName) + "\"" : "";
-    url += this.actionDescription ? "&actionDescription=\"" + encodeURIComponent(this.actionDescription) + "\"" : "";
-    url += this.headers ? "&headers=\"" + JSON.stringify(this.headers) + "\"" : "";
-    url += this.userInteractionTimeout ? "&userInteractionTimeout=\"" + this.userInteractionTimeout + "\"" : "";
-    url += this.serverRequestTimeout ? "&serverRequestTimeout=\"" + this.serverRequestTimeout + "\"" : "";
-    url += this.lang ? "&lang=\"" + this.lang + "\"" : "";
+    const extras = [`scheme=${scheme}`, `package=${packageName}`];
+
+    if (fallbackUrl != null) {
+      if (!IntentUrl.isValid("url", fallbackUrl) || !/^https?:/.test(fallbackUrl)) {
+        throw new InvalidParameterError("fallbackUrl of the Android intent URL must be an HTTP(S) URL", "fallbackUrl");
+      }
+
+      extras.push(`S.browser_fallback_url=${encodeURIComponent(fallbackUrl)}`);
+    }
 
-    return url;
+    return `intent://${rest}?${this.query()}#Intent;${extras.join(";")};end`;
   }
 }
@@ -23,5 +23,10 @@
 export default interface Message {
   action: string;
 
+  /**
+   * Unique ID of the request, replies to the request must echo it.
+   */
+  requestId?: string;
+
   [key: string]: any;
 }
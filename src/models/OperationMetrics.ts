@@ -0,0 +1,92 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import ErrorCode from "../errors/ErrorCode";
+import TimeoutPhase from "./TimeoutPhase";
+
+/**
+ * Timing and outcome of a status, authenticate or sign call.
+ *
+ * The record contains no personal data, URLs, headers, tokens or server responses.
+ * Timestamps are in milliseconds since the Unix epoch.
+ */
+export default interface OperationMetrics {
+  /**
+   * The action of the operation, for example web-eid:authenticate.
+   */
+  action: string;
+
+  /**
+   * Unique ID of the operation, present once the operation has reported progress.
+   */
+  requestId?: string;
+
+  /**
+   * Name of the transport which carried the operation, for example "extension" or "qr-code".
+   */
+  transport?: string;
+
+  startedAt: number;
+
+  /**
+   * When the browser extension or the authentication app acknowledged the operation.
+   */
+  acknowledgedAt?: number;
+
+  /**
+   * When the first QR code for the authentication app was displayed, refreshing the QR code doesn't change it.
+   */
+  qrCodeDisplayedAt?: number;
+
+  /**
+   * Timestamps of the attempts to poll the outcome of an authentication app operation.
+   */
+  pollingAttempts: number[];
+
+  completedAt: number;
+
+  /**
+   * Milliseconds from the start until the completion of the operation.
+   */
+  duration: number;
+
+  success: boolean;
+
+  /**
+   * Code of the error the operation failed with.
+   */
+  errorCode?: ErrorCode;
+
+  /**
+   * Phase which ran out of time, when the operation failed with a phase timeout.
+   */
+  timeoutPhase?: TimeoutPhase;
+
+  /**
+   * Versions of the library and, when known, of the browser extension and the native application.
+   */
+  versions: {
+    library:    string;
+    extension?: string;
+    nativeApp?: string;
+  };
+}
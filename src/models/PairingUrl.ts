@@ -0,0 +1,121 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import MissingParameterError from "../errors/MissingParameterError";
+import InvalidParameterError from "../errors/InvalidParameterError";
+import IntentUrl from "./IntentUrl";
+import config from "../config";
+import { getSessionUrl } from "../utils/pairing";
+
+/**
+ * Reference to a pairing session, encoded into a URL for the authentication app instead of the IntentUrl.
+ *
+ * The URL consists of the base and a query string with the schema version v, the pairingUrl and the sessionId,
+ * for example authapp://start/?v=1&pairingUrl=https%3A%2F%2Fexample.com%2Fpairing&sessionId=<ID>.
+ * The app exchanges it for the IntentUrl with a GET request to <pairingUrl>/<sessionId>,
+ * so the endpoints and the headers of the operation are not visible in the QR code.
+ */
+export default class PairingUrl {
+  /**
+   * Pairing endpoint of the server.
+   */
+  pairingUrl: string;
+
+  /**
+   * Short-lived ID of the pairing session.
+   */
+  sessionId: string;
+
+  constructor(pairingUrl: string, sessionId: string) {
+    this.pairingUrl = pairingUrl;
+    this.sessionId  = sessionId;
+
+    this.validate();
+  }
+
+  /**
+   * Rebuilds a PairingUrl from its string form and validates it.
+   *
+   * @throws MissingParameterError when a parameter is missing
+   * @throws InvalidParameterError when a parameter is malformed or the version is not supported
+   */
+  static parse(url: string): PairingUrl {
+    const queryStart = url.indexOf("?");
+    const params     = new URLSearchParams(queryStart == -1 ? "" : url.slice(queryStart + 1));
+
+    if (!params.get("v")) {
+      throw new MissingParameterError("v missing from PairingUrl", "v");
+    }
+
+    if (params.get("v") !== String(IntentUrl.VERSION)) {
+      throw new InvalidParameterError(`PairingUrl version ${params.get("v")} is not supported`, "v");
+    }
+
+    return new PairingUrl(params.get("pairingUrl") ?? "", params.get("sessionId") ?? "");
+  }
+
+  /**
+   * Whether the URL is a PairingUrl rather than an IntentUrl.
+   */
+  static isPairingUrl(url: string): boolean {
+    return /[?&]sessionId=/.test(url);
+  }
+
+  /**
+   * @throws MissingParameterError when a parameter is missing
+   * @throws InvalidParameterError when a parameter is malformed
+   */
+  validate(): void {
+    if (!this.pairingUrl) {
+      throw new MissingParameterError("pairingUrl missing from PairingUrl", "pairingUrl");
+    }
+
+    if (!this.sessionId) {
+      throw new MissingParameterError("sessionId missing from PairingUrl", "sessionId");
+    }
+
+    if (!this.pairingUrl.startsWith("https://")) {
+      throw new InvalidParameterError("pairingUrl must be an HTTPS URL in PairingUrl", "pairingUrl");
+    }
+
+    if (!/^[\w-]+$/.test(this.sessionId)) {
+      throw new InvalidParameterError("sessionId must consist of letters, digits, _ and - in PairingUrl", "sessionId");
+    }
+  }
+
+  /**
+   * URL of the pairing session, which the app requests the IntentUrl from.
+   */
+  sessionUrl(): string {
+    return getSessionUrl(this.pairingUrl, this.sessionId);
+  }
+
+  toString(base = config.AUTH_APP_INTENT_URL_BASE): string {
+    const params = [
+      ["v", String(IntentUrl.VERSION)],
+      ["pairingUrl", this.pairingUrl],
+      ["sessionId", this.sessionId],
+    ];
+
+    return base + "?" + params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join("&");
+  }
+}
@@ -21,12 +21,27 @@
  */
 
 import Message from "./Message";
+import Transport from "./Transport";
+import Progress from "./Progress";
+import Timeouts from "./Timeouts";
+import TimeoutPhase from "./TimeoutPhase";
+import ProgressPhase from "./ProgressPhase";
 
 export default interface PendingMessage {
-  message:     Message;
-  promise?:    Promise<Message>;
-  resolve?:    Function;
-  reject?:     Function;
-  ackTimer?:   number;
-  replyTimer?: number;
+  message:        Message;
+  promise?:       Promise<Message>;
+  resolve?:       (reply: Message) => void;
+  reject?:        (reason: any) => void;
+  ackTimer?:      number;
+  replyTimer?:    number;
+  phaseTimer?:    number;
+  timeoutPhase?:  TimeoutPhase;
+  progressPhase?: ProgressPhase;
+  timeouts?:      Partial<Timeouts>;
+  transport?:     Transport;
+  sentAt?:        number;
+  ackReceived?:   boolean;
+  signal?:        AbortSignal;
+  abortListener?: () => void;
+  onProgress?:    (progress: Progress) => void;
 }
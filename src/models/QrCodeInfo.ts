@@ -0,0 +1,55 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+export default interface QrCodeInfo {
+  /**
+   * QR code version, from 1 to 40.
+   */
+  version: number;
+
+  /**
+   * Width and height of the QR code in modules, without the quiet zone.
+   */
+  size: number;
+
+  /**
+   * Whether the QR code holds the compact form of the intent URL.
+   */
+  compact: boolean;
+
+  /**
+   * Time in milliseconds since the epoch, when the QR code expires and is replaced with a new one.
+   *
+   * Only present when the QR code is refreshed.
+   */
+  expiresAt?: number;
+
+  /**
+   * Version and size of the QR code with the intent URL which is not compacted, for comparison.
+   *
+   * Only present when config.AUTH_APP_COMPACT_INTENT_URL is set.
+   */
+  uncompacted?: {
+    version: number;
+    size: number;
+  };
+}
@@ -0,0 +1,55 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { QrCode } from "./qrcode/QrCode";
+import QrCodeInfo from "./QrCodeInfo";
+
+export interface QrCodeRendering {
+  /**
+   * The QR code, for rendering it with other means, for example on a canvas.
+   */
+  qrCode: QrCode;
+
+  /**
+   * The QR code as an SVG document.
+   */
+  svg: string;
+
+  /**
+   * Version, size and expiry of the QR code.
+   */
+  info: QrCodeInfo;
+}
+
+/**
+ * Renders the QR code, called with null when the QR code should be removed.
+ * Throwing an error fails the operation.
+ */
+export type QrCodeRenderer = (rendering: QrCodeRendering | null) => void;
+
+/**
+ * Where the QR code for the authentication app is displayed:
+ * an element, a CSS selector of the element or a callback which renders the QR code.
+ */
+type QrCodeTarget = Element | string | QrCodeRenderer;
+
+export default QrCodeTarget;
@@ -0,0 +1,51 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import Progress from "./Progress";
+import ConcurrencyPolicy from "./ConcurrencyPolicy";
+import Timeouts from "./Timeouts";
+
+export default interface SendOptions {
+  /**
+   * Signal for aborting the operation.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called each time the operation reaches a new phase.
+   */
+  onProgress?: (progress: Progress) => void;
+
+  /**
+   * What to do when an operation with the same action is already pending.
+   *
+   * When not specified, the operation is rejected with ActionPendingError.
+   */
+  concurrency?: ConcurrencyPolicy;
+
+  /**
+   * Time each phase of the operation may take.
+   *
+   * The handshake defaults to config.EXTENSION_HANDSHAKE_TIMEOUT, the other phases are not timed when not specified.
+   */
+  timeouts?: Partial<Timeouts>;
+}
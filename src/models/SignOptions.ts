@@ -20,6 +20,10 @@
  * SOFTWARE.
  */
 
+import Progress from "./Progress";
+import ConcurrencyPolicy from "./ConcurrencyPolicy";
+import Timeouts from "./Timeouts";
+
 export default interface SignOptions {
   /**
    * Prepare document for signing POST request URL
@@ -78,4 +82,82 @@ export default interface SignOptions {
    * If translations exist for the given language, then the user interface will be displayed in this language.
    */
   lang?: string;
+
+  /**
+   * Base64url-encoded signature or MAC issued by the server over IntentUrl.canonicalPayload of the signing request.
+   *
+   * When specified, it is appended to the intent URL of the Android authentication app,
+   * so the app can reject intents whose parameters have been modified, see verifyIntentUrl.
+   */
+  intentSignature?: string;
+
+  /**
+   * Package name of the Android authentication app, for example "ee.ria.authapp".
+   *
+   * When specified, the app on the same Android device is launched with an Android intent URL,
+   * which sends users without the app to authAppFallbackUrl or the Play Store page of the package.
+   *
+   * When not specified, defaults to config.AUTH_APP_PACKAGE_NAME, which launches the app with a deep link.
+   */
+  authAppPackageName?: string;
+
+  /**
+   * HTTP(S) URL of the page users without the Android authentication app are sent to, used with authAppPackageName.
+   *
+   * When not specified, defaults to config.AUTH_APP_FALLBACK_URL, which sends the users to the Play Store.
+   */
+  authAppFallbackUrl?: string;
+
+  /**
+   * Pairing endpoint URL
+   *
+   * When specified, the QR code for the Android authentication app holds only a short-lived pairing session ID
+   * and this URL instead of the IntentUrl, so the endpoints and the headers are not visible in the QR code.
+   * The session is created with a POST request to this URL and the app exchanges it for the IntentUrl.
+   *
+   * @example
+   *   // Example request payload
+   *   {"intentUrl": "authapp://start/?v=1&action=web-eid%3Aauthenticate&..."}
+   *
+   *   // Example response from the server, expiresIn is in seconds
+   *   {"sessionId": "<ID>", "expiresIn": 60}
+   */
+  pairingUrl?: string;
+
+  /**
+   * Time in milliseconds after which the QR code for the Android authentication app is replaced with a new one.
+   *
+   * The replaced QR codes can no longer be used, as the pairing session is refreshed, so pairingUrl is required.
+   * The QR code is also refreshed before the session expires.
+   *
+   * When not specified, defaults to config.DEFAULT_QR_CODE_REFRESH_INTERVAL, which doesn't refresh the QR code.
+   */
+  qrCodeRefreshInterval?: number;
+
+  /**
+   * Signal for aborting the operation.
+   *
+   * When the signal is aborted, the operation is cancelled and the returned promise rejects with ActionAbortedError.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called each time the operation reaches a new phase,
+   * for example when the QR code is displayed or the user is asked for the PIN.
+   */
+  onProgress?: (progress: Progress) => void;
+
+  /**
+   * What to do when a signing is already pending, for example when the user double-clicks.
+   *
+   * When not specified, defaults to config.DEFAULT_CONCURRENCY_POLICY, which rejects with ActionPendingError.
+   */
+  concurrency?: ConcurrencyPolicy;
+
+  /**
+   * Time in milliseconds each phase of the signing may take.
+   *
+   * When not specified, the phases are timed with serverRequestTimeout and userInteractionTimeout.
+   */
+  timeouts?: Partial<Timeouts>;
 }
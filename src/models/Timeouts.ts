@@ -0,0 +1,53 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Time in milliseconds each phase of an operation may take.
+ */
+export default interface Timeouts {
+  /**
+   * Until the browser extension or the authentication app acknowledges the operation.
+   */
+  handshake: number;
+
+  /**
+   * From the acknowledgement until the challenge has been fetched from the server, including the native application handshake.
+   *
+   * Only tracked for transports which report the phases of the operation.
+   */
+  serverChallenge: number;
+
+  /**
+   * From asking the user for the PIN until the token has been posted.
+   */
+  userPin: number;
+
+  /**
+   * From posting the token until the response of the server.
+   */
+  tokenPost: number;
+
+  /**
+   * From starting to wait for the outcome of an authentication app operation until the outcome is received.
+   */
+  polling: number;
+}
@@ -0,0 +1,97 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import Action from "./Action";
+import Message from "./Message";
+
+export interface TransportCapabilities {
+  /**
+   * Actions which the transport is able to carry out.
+   */
+  actions: Action[];
+
+  /**
+   * Whether an operation which is already in progress can be cancelled.
+   */
+  cancel: boolean;
+
+  /**
+   * Whether the challenge-fetched, waiting-for-pin and token-posted phases of operations are reported,
+   * which allows timing the server challenge phase from the acknowledgement.
+   */
+  progress?: boolean;
+}
+
+/**
+ * Receives the ack, success and failure replies of a transport.
+ */
+export type TransportListener = (reply: Message) => void;
+
+/**
+ * A channel for delivering Web eID action messages and receiving their replies.
+ *
+ * The lifecycle of a transport is open → send/cancel → close.
+ * Replies must be delivered to the listener provided in open,
+ * using the same actions as the browser extension, for example web-eid:authenticate-ack,
+ * web-eid:authenticate-success and web-eid:authenticate-failure.
+ */
+export default interface Transport {
+  /**
+   * Human readable name of the transport, for example "extension".
+   */
+  readonly name: string;
+
+  readonly capabilities: TransportCapabilities;
+
+  /**
+   * Checks if the transport should be used for delivering the message.
+   */
+  accepts(message: Message): boolean;
+
+  /**
+   * Prepares the transport for sending messages.
+   */
+  open(listener: TransportListener): void;
+
+  /**
+   * Delivers the message.
+   *
+   * @param message Action message to deliver
+   * @param timeout Time in milliseconds until the operation times out
+   */
+  send(message: Message, timeout: number): void;
+
+  /**
+   * Stops an operation which was started with send.
+   */
+  cancel(message: Message): void;
+
+  /**
+   * Releases the resources acquired in open.
+   */
+  close(): void;
+
+  /**
+   * Creates the error which is thrown when the message is not acknowledged in time.
+   */
+  unavailableError(message: Message): Error;
+}
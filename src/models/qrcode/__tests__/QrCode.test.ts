@@ -0,0 +1,154 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { QrCode } from "../QrCode";
+import { QrSegment } from "../QrSegment";
+import { Ecc } from "../Ecc";
+import { Mode } from "../Mode";
+
+const maskPatterns = [
+  (x: number, y: number): boolean => (x + y) % 2 == 0,
+  (x: number, y: number): boolean => y % 2 == 0,
+  (x: number): boolean => x % 3 == 0,
+  (x: number, y: number): boolean => (x + y) % 3 == 0,
+  (x: number, y: number): boolean => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 == 0,
+  (x: number, y: number): boolean => x * y % 2 + x * y % 3 == 0,
+  (x: number, y: number): boolean => (x * y % 2 + x * y % 3) % 2 == 0,
+  (x: number, y: number): boolean => ((x + y) % 2 + x * y % 3) % 2 == 0,
+];
+
+/**
+ * Reads the error correction level, the mask and the codewords of a version 1 QR code,
+ * independently of the encoder.
+ */
+function readVersion1(qr: QrCode): { ecl: number; mask: number; codewords: number[] } {
+  let format = 0;
+
+  const formatModules = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8],
+    [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+  ];
+
+  formatModules.forEach(([x, y], i) => {
+    format |= (qr.getModule(x, y) ? 1 : 0) << i;
+  });
+
+  format ^= 0x5412;
+
+  const ecl  = format >>> 13;
+  const mask = (format >>> 10) & 7;
+
+  const isFunctionModule = (x: number, y: number): boolean => (
+    (x <= 8 && y <= 8) || (x >= 13 && y <= 8) || (x <= 8 && y >= 13) || x == 6 || y == 6
+  );
+
+  const bits: number[] = [];
+
+  for (let right = 20; right >= 1; right -= 2) {
+    if (right == 6) right = 5;
+
+    const upward = ((right + 1) & 2) == 0;
+
+    for (let vertical = 0; vertical < 21; vertical++) {
+      const y = upward ? 20 - vertical : vertical;
+
+      for (const x of [right, right - 1]) {
+        if (!isFunctionModule(x, y)) {
+          bits.push(qr.getModule(x, y) !== maskPatterns[mask](x, y) ? 1 : 0);
+        }
+      }
+    }
+  }
+
+  const codewords = [];
+
+  for (let i = 0; i < 26; i++) {
+    codewords.push(bits.slice(i * 8, i * 8 + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  return { ecl, mask, codewords };
+}
+
+describe("QrSegment", () => {
+  it("encodes alphanumeric text", () => {
+    const segment = QrSegment.makeAlphanumeric("HELLO WORLD");
+
+    expect(segment.mode).toBe(Mode.ALPHANUMERIC);
+    expect(segment.numChars).toBe(11);
+    expect(segment.getData().join("")).toBe(
+      "01100001011" + "01111000110" + "10001011100" + "10110111000" + "10011010100" + "001101"
+    );
+  });
+
+  it("chooses the most compact mode", () => {
+    expect(QrSegment.makeSegments("0123456789")[0].mode).toBe(Mode.NUMERIC);
+    expect(QrSegment.makeSegments("HTTPS://RIA.EE/")[0].mode).toBe(Mode.ALPHANUMERIC);
+    expect(QrSegment.makeSegments("authapp://start/")[0].mode).toBe(Mode.BYTE);
+  });
+});
+
+describe("QrCode", () => {
+  it("encodes HELLO WORLD as the 1-Q reference symbol", () => {
+    const qr = QrCode.encodeSegments([QrSegment.makeAlphanumeric("HELLO WORLD")], Ecc.QUARTILE, 1, 40, -1, false);
+
+    expect(qr.version).toBe(1);
+    expect(qr.size).toBe(21);
+
+    const { ecl, mask, codewords } = readVersion1(qr);
+
+    expect(ecl).toBe(Ecc.QUARTILE.formatBits);
+    expect(mask).toBe(qr.mask);
+    expect(codewords).toEqual([
+      // Data
+      32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236,
+      // Error correction
+      168, 72, 22, 82, 217, 54, 156, 0, 46, 15, 180, 122, 16,
+    ]);
+  });
+
+  it("draws the finder patterns", () => {
+    const qr = QrCode.encodeText("HELLO WORLD", Ecc.QUARTILE);
+
+    const finder = [
+      "#######",
+      "#.....#",
+      "#.###.#",
+      "#.###.#",
+      "#.###.#",
+      "#.....#",
+      "#######",
+    ];
+
+    for (const [left, top] of [[0, 0], [qr.size - 7, 0], [0, qr.size - 7]]) {
+      const drawn = finder.map((row, y) => row.split("").map((_, x) => qr.getModule(left + x, top + y) ? "#" : ".").join(""));
+
+      expect(drawn).toEqual(finder);
+    }
+  });
+
+  it("uses the smallest version which fits the data", () => {
+    expect(QrCode.encodeText("a".repeat(17), Ecc.LOW).version).toBe(1);
+    expect(QrCode.encodeText("a".repeat(18), Ecc.LOW).version).toBe(2);
+    expect(QrCode.encodeText("a".repeat(2953), Ecc.LOW).version).toBe(40);
+    expect(() => QrCode.encodeText("a".repeat(2954), Ecc.LOW)).toThrow();
+  });
+});
@@ -0,0 +1,249 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import Clock from "../models/Clock";
+import IntentUrl from "../models/IntentUrl";
+import PairingUrl from "../models/PairingUrl";
+import ServerRejectedError from "../errors/ServerRejectedError";
+import generateRequestId from "../utils/requestId";
+import { toHttpResponse, FetchedResponse } from "../utils/poller";
+import windowClock from "../utils/clock";
+
+export interface PairingServerSimulatorOptions {
+  /**
+   * Pairing endpoint URL the simulator answers to.
+   *
+   * When not specified, defaults to https://localhost/pairing.
+   */
+  pairingUrl?: string;
+
+  /**
+   * Lifetime of the pairing sessions in seconds.
+   *
+   * When not specified, defaults to 60.
+   */
+  expiresIn?: number;
+
+  /**
+   * Clock the sessions expire by.
+   */
+  clock?: Clock;
+}
+
+export interface SimulatedPairingSession {
+  intentUrl: string;
+  expiresAt: number;
+}
+
+export interface PairingRequest {
+  method: string;
+  url:    string;
+  body?:  any;
+}
+
+const statusTexts: { [status: number]: string } = {
+  200: "OK",
+  201: "Created",
+  204: "No Content",
+  400: "Bad Request",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  410: "Gone",
+};
+
+/**
+ * The members of a fetch Response which the library reads.
+ */
+type SimulatedResponse = FetchedResponse & Pick<Response, "json">;
+
+/**
+ * Response with the members the library reads, Response is not available outside the browser.
+ */
+function createResponse(url: string, status: number, body?: any): SimulatedResponse {
+  const text = body === undefined ? "" : JSON.stringify(body);
+
+  return {
+    headers:    new Map<string, string>(body === undefined ? [] : [["content-type", "application/json"]]),
+    ok:         status >= 200 && status < 300,
+    redirected: false,
+    status,
+    statusText: statusTexts[status] || "",
+    type:       "basic",
+    url,
+    text:       async () => text,
+    json:       async () => JSON.parse(text),
+  };
+}
+
+/**
+ * In-memory stand-in for the pairing endpoint of the server.
+ *
+ * Answers the fetch requests to the pairing URL the way the server does, requests to other URLs are passed on.
+ * Sessions can be exchanged for the intent URL only once, like the authentication app does with pair.
+ *
+ * @example
+ *   const simulator = new PairingServerSimulator().install();
+ *
+ *   webeid.authenticate({ ...options, useAuthApp: true, pairingUrl: simulator.pairingUrl });
+ *
+ *   const intentUrl = await simulator.pair(scannedUrl); // IntentUrl of the authentication
+ *
+ *   simulator.uninstall();
+ */
+export default class PairingServerSimulator {
+  readonly pairingUrl: string;
+
+  /**
+   * Requests received since the simulator was installed or reset.
+   */
+  received: PairingRequest[] = [];
+
+  /**
+   * Sessions which have not been paired or expired with a DELETE request, by session ID.
+   */
+  sessions = new Map<string, SimulatedPairingSession>();
+
+  private expiresIn: number;
+
+  private clock: Clock;
+
+  private originalFetch?: typeof fetch;
+
+  constructor(options: PairingServerSimulatorOptions = {}) {
+    this.pairingUrl = (options.pairingUrl || "https://localhost/pairing").replace(/\/$/, "");
+    this.expiresIn  = options.expiresIn ?? 60;
+    this.clock      = options.clock || windowClock;
+  }
+
+  install(): this {
+    this.originalFetch = window.fetch;
+
+    // The simulated responses only have the members of a Response which the library reads
+    window.fetch = this.fetch.bind(this) as typeof fetch;
+
+    return this;
+  }
+
+  uninstall(): void {
+    window.fetch = this.originalFetch as typeof fetch;
+
+    this.reset();
+  }
+
+  /**
+   * Forgets the received requests and the sessions.
+   */
+  reset(): void {
+    this.received = [];
+    this.sessions.clear();
+  }
+
+  /**
+   * Exchanges the PairingUrl for the IntentUrl with a GET request, like the authentication app.
+   *
+   * @throws ServerRejectedError when the session is unknown, already paired or expired
+   */
+  async pair(url: string): Promise<IntentUrl> {
+    const sessionUrl = PairingUrl.parse(url).sessionUrl();
+    const response   = await this.fetch(sessionUrl);
+
+    if (!response.ok) {
+      const error = new ServerRejectedError(`pairing session could not be paired, status ${response.status}`);
+
+      Object.assign(error, { response: await toHttpResponse(response) });
+
+      throw error;
+    }
+
+    return IntentUrl.parse((await response.json()).intentUrl);
+  }
+
+  private async fetch(input: RequestInfo, init: RequestInit = {}): Promise<SimulatedResponse> {
+    const url = typeof input == "string" ? input : input.url;
+
+    if (url != this.pairingUrl && !url.startsWith(this.pairingUrl + "/")) {
+      if (!this.originalFetch) {
+        throw new TypeError(`Failed to fetch ${url}`);
+      }
+
+      return this.originalFetch(input, init);
+    }
+
+    const method = (init.method || "GET").toUpperCase();
+    const body   = typeof init.body == "string" ? JSON.parse(init.body) : undefined;
+
+    this.received.push({ method, url, body });
+
+    if (init.signal?.aborted) {
+      throw new DOMException("pairing request aborted", "AbortError");
+    }
+
+    const [sessionId, operation] = url.slice(this.pairingUrl.length + 1).split("/").map(decodeURIComponent);
+
+    if (!sessionId) {
+      if (method != "POST") return createResponse(url, 405);
+      if (typeof body?.intentUrl != "string") return createResponse(url, 400);
+
+      return createResponse(url, 201, this.createSession(body.intentUrl));
+    }
+
+    const session = this.sessions.get(sessionId);
+
+    if (!session) {
+      return createResponse(url, 404);
+    }
+
+    if (session.expiresAt <= this.clock.now()) {
+      this.sessions.delete(sessionId);
+
+      return createResponse(url, 410);
+    }
+
+    if (method == "POST" && operation == "refresh") {
+      this.sessions.delete(sessionId);
+
+      return createResponse(url, 200, this.createSession(session.intentUrl));
+    }
+
+    if (method == "GET" && !operation) {
+      this.sessions.delete(sessionId);
+
+      return createResponse(url, 200, { intentUrl: session.intentUrl });
+    }
+
+    if (method == "DELETE" && !operation) {
+      this.sessions.delete(sessionId);
+
+      return createResponse(url, 204);
+    }
+
+    return createResponse(url, 405);
+  }
+
+  private createSession(intentUrl: string): { sessionId: string; expiresIn: number } {
+    const sessionId = generateRequestId();
+
+    this.sessions.set(sessionId, { intentUrl, expiresAt: this.clock.now() + this.expiresIn * 1000 });
+
+    return { sessionId, expiresIn: this.expiresIn };
+  }
+}
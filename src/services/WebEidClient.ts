@@ -0,0 +1,423 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import defaultConfig, { Config } from "../config";
+
+import Action from "../models/Action";
+import AuthenticateOptions from "../models/AuthenticateOptions";
+import SignOptions from "../models/SignOptions";
+import Versions from "../models/Versions";
+import Detection from "../models/Detection";
+import Timeouts from "../models/Timeouts";
+import OperationMetrics from "../models/OperationMetrics";
+import Progress from "../models/Progress";
+import ProgressPhase from "../models/ProgressPhase";
+import ConcurrencyPolicy from "../models/ConcurrencyPolicy";
+import HttpResponse from "../models/HttpResponse";
+import Transport from "../models/Transport";
+import Clock from "../models/Clock";
+import QrCodeTarget from "../models/QrCodeTarget";
+import ResponseAuthenticateSuccess from "../models/ResponseAuthenticateSuccess";
+import ResponseSignSuccess from "../models/ResponseSignSuccess";
+import ResponseStatusSuccess from "../models/ResponseStatusSuccess";
+
+import ErrorCode from "../errors/ErrorCode";
+import VersionMismatchError from "../errors/VersionMismatchError";
+import MissingParameterError from "../errors/MissingParameterError";
+
+import WebExtensionService from "./WebExtensionService";
+import ExtensionTransport, { ExtensionTransportOptions } from "./transports/ExtensionTransport";
+import QrCodeTransport from "./transports/QrCodeTransport";
+import AndroidAppTransport from "./transports/AndroidAppTransport";
+
+import * as version from "../utils/version";
+import defer from "../utils/defer";
+import { isAndroidDevice } from "../utils/device";
+import { Logger, LoggerOptions } from "../utils/logger";
+import { MetricsHandler, MetricsRecorder } from "../utils/metrics";
+
+export interface WebEidClientConfig {
+  /**
+   * Overrides for the library configuration, for example the handshake timeouts.
+   */
+  settings?: Partial<Omit<Config, "VERSION">>;
+
+  /**
+   * Log level and sink of the client, or a logger shared with other clients.
+   *
+   * When not specified, the client doesn't log anything.
+   */
+  logger?: LoggerOptions | Logger;
+
+  /**
+   * Trusted origins and origin mismatch reporting of the built-in extension transport.
+   */
+  extension?: Omit<ExtensionTransportOptions, "logger">;
+
+  /**
+   * Where the built-in QR code transport displays the QR code for the authentication app,
+   * an element, a CSS selector of the element or a callback which renders the QR code.
+   *
+   * When not specified, the QR code is displayed in the element with the ID canvas.
+   */
+  qrCodeTarget?: QrCodeTarget;
+
+  /**
+   * Custom transports, which take precedence over the built-in ones.
+   */
+  transports?: Transport[];
+
+  /**
+   * Receives the metrics of every status, authenticate and sign call.
+   *
+   * When not specified, no metrics are collected.
+   */
+  onMetrics?: MetricsHandler;
+
+  /**
+   * Source of time and timers, which can be replaced for testing.
+   *
+   * When not specified, Date.now and the window timers are used.
+   */
+  clock?: Clock;
+}
+
+/**
+ * Web eID client with its own configuration, logger, transports and window listeners.
+ */
+export default class WebEidClient {
+  readonly config: Readonly<Config>;
+
+  private logger: Logger;
+
+  private service: WebExtensionService;
+
+  private metricsHandler?: MetricsHandler;
+
+  private clock?: Clock;
+
+  constructor(clientConfig: WebEidClientConfig = {}) {
+    this.config = Object.freeze({ ...defaultConfig, ...clientConfig.settings });
+
+    this.logger = clientConfig.logger instanceof Logger
+      ? clientConfig.logger
+      : new Logger(clientConfig.logger);
+
+    this.metricsHandler = clientConfig.onMetrics;
+    this.clock          = clientConfig.clock;
+
+    const transportOptions = { config: this.config, logger: this.logger, clock: this.clock };
+
+    this.service = new WebExtensionService({
+      config:     this.config,
+      logger:     this.logger,
+      clock:      this.clock,
+      transports: [
+        new ExtensionTransport({ ...clientConfig.extension, logger: this.logger }),
+        new QrCodeTransport({ ...transportOptions, target: clientConfig.qrCodeTarget }),
+        new AndroidAppTransport(transportOptions),
+        ...(clientConfig.transports || []),
+      ],
+    });
+  }
+
+  status(): Promise<Versions> {
+    return this.measure(Action.STATUS, (metrics) => this.runStatus(metrics));
+  }
+
+  private async runStatus(metrics?: MetricsRecorder): Promise<Versions> {
+    await defer(); // Give chrome a moment to load the extension content script
+
+    let statusResponse;
+
+    const { config } = this;
+
+    const library = config.VERSION;
+
+    const timeout = config.EXTENSION_HANDSHAKE_TIMEOUT + config.NATIVE_APP_HANDSHAKE_TIMEOUT;
+    const message = { action: Action.STATUS };
+
+    metrics?.setTransport(this.service.getTransport(message)?.name);
+
+    try {
+      statusResponse = await this.service.send<ResponseStatusSuccess>(message, timeout, {
+        concurrency: config.DEFAULT_CONCURRENCY_POLICY,
+        onProgress:  metrics?.trackProgress(),
+      });
+    } catch (error) {
+      error.library = library;
+
+      throw error;
+    }
+
+    const versions: Versions = { library, ...statusResponse };
+
+    metrics?.setVersions(versions);
+
+    const requiresUpdate = version.checkCompatibility(versions);
+
+    if (requiresUpdate.extension || requiresUpdate.nativeApp) {
+      throw new VersionMismatchError(undefined, versions, requiresUpdate);
+    }
+
+    return versions;
+  }
+
+  /**
+   * Quickly checks which means of authentication are probably available, without waiting for the full native application handshake.
+   * Unlike status, version mismatches are not reported.
+   *
+   * @param timeout Time to wait for the browser extension and the native application, DETECTION_TIMEOUT by default
+   */
+  async detect(timeout = this.config.DETECTION_TIMEOUT): Promise<Detection> {
+    await defer(); // Give chrome a moment to load the extension content script
+
+    const authApp = isAndroidDevice();
+    const message = { action: Action.STATUS };
+
+    let acknowledged = false;
+
+    const onProgress = (progress: Progress): void => {
+      if (progress.phase === ProgressPhase.ACKNOWLEDGED) {
+        acknowledged = true;
+      }
+    };
+
+    try {
+      // A pending status check is joined, its versions answer the detection as well.
+      // The ack is awaited no longer than the detection, so that the reply timeout implies an ack.
+      const versions = await this.service.send<ResponseStatusSuccess>(message, timeout, {
+        concurrency: ConcurrencyPolicy.JOIN,
+        timeouts:    { handshake: Math.min(timeout, this.config.EXTENSION_HANDSHAKE_TIMEOUT) },
+        onProgress,
+      });
+
+      return { extension: true, nativeApp: !!versions.nativeApp, authApp };
+    } catch (error) {
+      switch (error?.code) {
+        // The native application didn't answer within the timeout, the extension did if it acknowledged
+        case ErrorCode.ERR_WEBEID_ACTION_TIMEOUT:
+          return { extension: acknowledged, nativeApp: false, authApp };
+
+        case ErrorCode.ERR_WEBEID_EXTENSION_UNAVAILABLE:
+          return { extension: false, nativeApp: false, authApp };
+
+        default:
+          // The status failure replies of the extension carry the versions it knows of
+          if (acknowledged || error?.extension) {
+            return {
+              extension: true,
+              nativeApp: !!error?.nativeApp && error.code !== ErrorCode.ERR_WEBEID_NATIVE_UNAVAILABLE,
+              authApp,
+            };
+          }
+
+          throw error;
+      }
+    }
+  }
+
+  authenticate(options: AuthenticateOptions): Promise<HttpResponse> {
+    return this.measure(Action.AUTHENTICATE, (metrics) => this.runAuthenticate(options, metrics));
+  }
+
+  private async runAuthenticate(options: AuthenticateOptions, metrics?: MetricsRecorder): Promise<HttpResponse> {
+    await defer(); // Give chrome a moment to load the extension content script
+
+    if (typeof options != "object") {
+      throw new MissingParameterError("authenticate function requires an options object as parameter");
+    }
+
+    if (!options.getAuthChallengeUrl) {
+      throw new MissingParameterError("getAuthChallengeUrl missing from authenticate options");
+    }
+
+    if (!options.postAuthTokenUrl) {
+      throw new MissingParameterError("postAuthTokenUrl missing from authenticate options");
+    }
+
+    const {
+      signal,
+      onProgress,
+      concurrency = this.config.DEFAULT_CONCURRENCY_POLICY,
+      timeouts: timeoutOverrides,
+      ...messageOptions
+    } = options;
+
+    const timeouts = { ...this.getTimeouts(options), ...timeoutOverrides };
+
+    // Upper bound for transports which don't report the phases of the operation
+    const timeout = Math.max(
+      timeouts.handshake + timeouts.serverChallenge + timeouts.userPin + timeouts.tokenPost,
+      timeouts.handshake + timeouts.polling,
+    );
+
+    const message = { ...messageOptions, action: Action.AUTHENTICATE };
+
+    metrics?.setTransport(this.service.getTransport(message)?.name);
+
+    const result = await this.service.send<ResponseAuthenticateSuccess>(message, timeout, {
+      signal,
+      onProgress: metrics ? metrics.trackProgress(onProgress) : onProgress,
+      concurrency,
+      timeouts,
+    });
+
+    return result.response;
+  }
+
+  sign(options: SignOptions): Promise<HttpResponse> {
+    return this.measure(Action.SIGN, (metrics) => this.runSign(options, metrics));
+  }
+
+  private async runSign(options: SignOptions, metrics?: MetricsRecorder): Promise<HttpResponse> {
+    await defer(); // Give chrome a moment to load the extension content script
+
+    if (typeof options != "object") {
+      throw new MissingParameterError("sign function requires an options object as parameter");
+    }
+
+    if (!options.postPrepareSigningUrl) {
+      throw new MissingParameterError("postPrepareSigningUrl missing from sign options");
+    }
+
+    if (!options.postFinalizeSigningUrl) {
+      throw new MissingParameterError("postFinalizeSigningUrl missing from sign options");
+    }
+
+    const {
+      signal,
+      onProgress,
+      concurrency = this.config.DEFAULT_CONCURRENCY_POLICY,
+      timeouts: timeoutOverrides,
+      ...messageOptions
+    } = options;
+
+    const timeouts = { ...this.getTimeouts(options), ...timeoutOverrides };
+
+    // Upper bound for transports which don't report the phases of the operation
+    const timeout = Math.max(
+      timeouts.handshake + timeouts.serverChallenge + timeouts.userPin * 2 + timeouts.tokenPost,
+      timeouts.handshake + timeouts.polling,
+    );
+
+    const message = { ...messageOptions, action: Action.SIGN };
+
+    metrics?.setTransport(this.service.getTransport(message)?.name);
+
+    const result = await this.service.send<ResponseSignSuccess>(message, timeout, {
+      signal,
+      onProgress: metrics ? metrics.trackProgress(onProgress) : onProgress,
+      concurrency,
+      timeouts,
+    });
+
+    return result.response;
+  }
+
+  /**
+   * Runs the operation, reporting its metrics when a metrics handler is configured.
+   */
+  private async measure<T>(action: Action, run: (metrics?: MetricsRecorder) => Promise<T>): Promise<T> {
+    if (!this.metricsHandler) return run();
+
+    const metrics = new MetricsRecorder(action, this.config.VERSION, this.clock);
+
+    try {
+      const result = await run(metrics);
+
+      this.reportMetrics(metrics.succeed());
+
+      return result;
+    } catch (error) {
+      this.reportMetrics(metrics.fail(error));
+
+      throw error;
+    }
+  }
+
+  private reportMetrics(operationMetrics: OperationMetrics): void {
+    try {
+      this.metricsHandler?.(operationMetrics);
+    } catch (error) {
+      this.logger.error("Metrics handler failed", error);
+    }
+  }
+
+  /**
+   * Phase budgets derived from the server request and user interaction timeouts of the options.
+   */
+  private getTimeouts(options: AuthenticateOptions | SignOptions): Timeouts {
+    const { config } = this;
+
+    const serverRequestTimeout   = options.serverRequestTimeout || config.DEFAULT_SERVER_REQUEST_TIMEOUT;
+    const userInteractionTimeout = options.userInteractionTimeout || config.DEFAULT_USER_INTERACTION_TIMEOUT;
+
+    // Creating a pairing session takes a server request before the QR code is displayed
+    const pairingTimeout = options.pairingUrl ? serverRequestTimeout : 0;
+
+    return {
+      handshake:       config.EXTENSION_HANDSHAKE_TIMEOUT + pairingTimeout,
+      serverChallenge: config.NATIVE_APP_HANDSHAKE_TIMEOUT + serverRequestTimeout,
+      userPin:         userInteractionTimeout,
+      tokenPost:       serverRequestTimeout,
+      polling:         userInteractionTimeout + serverRequestTimeout,
+    };
+  }
+
+  /**
+   * Registers a custom transport for delivering messages.
+   * Custom transports take precedence over the built-in extension, Android app and QR code transports,
+   * a transport with the name of a built-in transport replaces it.
+   */
+  registerTransport(transport: Transport): void {
+    this.service.addTransport(transport);
+  }
+
+  unregisterTransport(transport: Transport): void {
+    this.service.removeTransport(transport);
+  }
+
+  /**
+   * Configures the level and the sink of the client's log.
+   * Headers, nonces and tokens are always redacted.
+   */
+  configureLogger(options: LoggerOptions): void {
+    this.logger.configure(options);
+  }
+
+  /**
+   * Sets the handler which receives the metrics of every status, authenticate and sign call,
+   * or stops collecting metrics when called without a handler.
+   */
+  configureMetrics(handler?: MetricsHandler): void {
+    this.metricsHandler = handler;
+  }
+
+  /**
+   * Rejects the pending operations with ActionAbortedError and removes the client's window listeners.
+   * The client can't be used after it has been disposed.
+   */
+  dispose(): void {
+    this.service.dispose();
+  }
+}
@@ -20,338 +20,523 @@
  * SOFTWARE.
  */
 
-import {deserializeError} from "../utils/errorSerializer";
-import config from "../config";
+import { deserializeError } from "../utils/errorSerializer";
+import defaultConfig, { Config } from "../config";
+import Action from "../models/Action";
 import Message from "../models/Message";
 import PendingMessage from "../models/PendingMessage";
+import SendOptions from "../models/SendOptions";
+import ProgressPhase from "../models/ProgressPhase";
+import Progress from "../models/Progress";
+import ConcurrencyPolicy from "../models/ConcurrencyPolicy";
+import TimeoutPhase from "../models/TimeoutPhase";
+import Transport from "../models/Transport";
+import Clock from "../models/Clock";
 import ActionPendingError from "../errors/ActionPendingError";
 import ActionTimeoutError from "../errors/ActionTimeoutError";
+import ActionAbortedError from "../errors/ActionAbortedError";
 import ContextInsecureError from "../errors/ContextInsecureError";
-import ExtensionUnavailableError from "../errors/ExtensionUnavailableError";
-import IntentUrl from "../models/IntentUrl";
-import AuthAppNotInstalledError from "../errors/AuthAppNotInstalledError";
-import Action from "../models/Action";
-import {QrCode} from "../models/qrcode/QrCode";
-import {Ecc} from "../models/qrcode/Ecc";
-import {toSvgString} from "../utils/qrcode";
-import ProtocolInsecureError from "../errors/ProtocolInsecureError";
-import MissingParameterError from "../errors/MissingParameterError";
-import * as https from "https";
-import * as http from "http";
-import {isAndroidDevice} from "../web-eid";
-import ErrorCode from "../errors/ErrorCode";
-import ServerRejectedError from "../errors/ServerRejectedError";
-import ServerTimeoutError from "../errors/ServerTimeoutError";
-import UserCancelledError from "../errors/UserCancelledError";
-import UserPinError from "../errors/UserPinError";
 import UnknownError from "../errors/UnknownError";
+import ServerTimeoutError from "../errors/ServerTimeoutError";
+import UserTimeoutError from "../errors/UserTimeoutError";
+import EnvironmentUnsupportedError from "../errors/EnvironmentUnsupportedError";
+import ExtensionTransport from "./transports/ExtensionTransport";
+import AndroidAppTransport from "./transports/AndroidAppTransport";
+import QrCodeTransport from "./transports/QrCodeTransport";
+import { getInitialAction } from "../utils/action";
+import generateRequestId from "../utils/requestId";
+import { isBrowser } from "../utils/device";
+import defaultLogger, { Logger } from "../utils/logger";
+import windowClock from "../utils/clock";
+
+/**
+ * The timeout phase which starts when a progress phase is reported, phases mapped to undefined stop the phase timer.
+ * The server challenge phase starts with the acknowledgement, when the transport reports progress.
+ */
+const progressToTimeoutPhase: { [phase: string]: TimeoutPhase | undefined } = {
+  [ProgressPhase.CHALLENGE_FETCHED]: undefined,
+  [ProgressPhase.WAITING_FOR_PIN]:   TimeoutPhase.USER_PIN,
+  [ProgressPhase.TOKEN_POSTED]:      TimeoutPhase.TOKEN_POST,
+  [ProgressPhase.LISTENING]:         TimeoutPhase.POLLING,
+  [ProgressPhase.POLLING]:           TimeoutPhase.POLLING,
+};
+
+/**
+ * The phase an operation is in after a progress phase was reported,
+ * which a reply timeout is attributed to when no phase timer has run out before it.
+ * After the bare acknowledgement the phase is worked out from the elapsed time instead, see getElapsedPhase.
+ */
+const progressToCurrentPhase: { [phase: string]: TimeoutPhase } = {
+  [ProgressPhase.QR_CODE_DISPLAYED]: TimeoutPhase.USER_PIN,
+  [ProgressPhase.APP_LAUNCHED]:      TimeoutPhase.USER_PIN,
+  [ProgressPhase.LISTENING]:         TimeoutPhase.POLLING,
+  [ProgressPhase.POLLING]:           TimeoutPhase.POLLING,
+  [ProgressPhase.CHALLENGE_FETCHED]: TimeoutPhase.USER_PIN,
+  [ProgressPhase.WAITING_FOR_PIN]:   TimeoutPhase.USER_PIN,
+  [ProgressPhase.TOKEN_POSTED]:      TimeoutPhase.TOKEN_POST,
+};
+
+const timeoutPhaseToTimeoutsKey: { [phase: string]: "serverChallenge" | "userPin" | "tokenPost" | "polling" } = {
+  [TimeoutPhase.SERVER_CHALLENGE]: "serverChallenge",
+  [TimeoutPhase.USER_PIN]:         "userPin",
+  [TimeoutPhase.TOKEN_POST]:       "tokenPost",
+  [TimeoutPhase.POLLING]:          "polling",
+};
+
+export interface WebExtensionServiceOptions {
+  /**
+   * Transports in the order of registration.
+   *
+   * When not specified, the built-in extension, QR code and Android app transports are used.
+   */
+  transports?: Transport[];
+
+  config?: Readonly<Config>;
+
+  logger?: Logger;
+
+  /**
+   * Source of the timers, the window timers by default.
+   */
+  clock?: Clock;
+}
 
 export default class WebExtensionService {
-  private queue: PendingMessage[] = [];
+  private queue = new Map<string, PendingMessage>();
+
+  private transports: Transport[] = [];
+
+  private config: Readonly<Config>;
+
+  private logger: Logger;
+
+  private clock: Clock;
+
+  private opened = false;
+
+  constructor(options: WebExtensionServiceOptions = {}) {
+    this.config = options.config || defaultConfig;
+    this.logger = options.logger || defaultLogger;
+    this.clock  = options.clock || windowClock;
+
+    const transportOptions = { config: this.config, logger: this.logger, clock: this.clock };
+
+    const transports = options.transports || [
+      new ExtensionTransport({ logger: this.logger }),
+      new QrCodeTransport(transportOptions),
+      new AndroidAppTransport(transportOptions),
+    ];
+
+    for (const transport of transports) {
+      this.addTransport(transport);
+    }
+  }
 
-  constructor() {
-    window.addEventListener("message", (event) => this.receive(event));
+  /**
+   * Registers a transport.
+   * Transports registered later take precedence over the ones registered earlier,
+   * a transport with the same name as a registered one replaces it.
+   */
+  addTransport(transport: Transport): void {
+    this.transports
+      .filter((t) => t.name === transport.name)
+      .forEach((t) => this.removeTransport(t));
+
+    this.transports.unshift(transport);
+
+    if (this.opened) {
+      transport.open((message) => this.receive(message, transport));
+    }
+  }
+
+  removeTransport(transport: Transport): void {
+    this.transports = this.transports.filter((t) => t !== transport);
+
+    if (this.opened) {
+      transport.close();
+    }
+  }
+
+  /**
+   * Opens the transports, which attaches their window listeners.
+   * This is delayed until the first message is sent, so that the library can be imported outside of a browser.
+   */
+  private open(): void {
+    if (this.opened) return;
+
+    this.opened = true;
+
+    for (const transport of this.transports) {
+      transport.open((message) => this.receive(message, transport));
+    }
   }
 
-  private receive(event: { data: Message }): void {
-    if (!/^web-eid:/.test(event.data?.action)) return;
+  getTransport(message: Message): Transport | undefined {
+    return this.transports.find((transport) => (
+      transport.capabilities.actions.some((action) => action === message.action) &&
+      transport.accepts(message)
+    ));
+  }
 
-    const message = event.data;
-    const suffix = message.action?.match(/success$|failure$|ack$/)?.[0];
-    const initialAction = this.getInitialAction(message.action);
-    const pending = this.getPendingMessage(initialAction);
+  private receive(message: Message, transport: Transport): void {
+    if (!/^web-eid:/.test(message?.action)) return;
+
+    const suffix = message.action?.match(/success$|failure$|ack$|progress$/)?.[0];
+
+    // Outgoing action messages are not replies
+    if (!suffix) return;
+
+    const pending = message.requestId
+      ? this.queue.get(message.requestId)
+      : this.getPendingWithoutRequestId(message, transport);
 
     if (suffix === "ack") {
-      console.log("ack message", message);
-      console.log("ack pending", pending?.message.action);
-      console.log("ack queue", JSON.stringify(this.queue));
+      this.logger.debug("ack message", message);
+      this.logger.debug("ack pending", pending?.message.action);
+      this.logger.debug("ack queue", Array.from(this.queue.values(), (pm) => pm.message));
     }
 
-    if (pending) {
-      switch (suffix) {
-        case "ack": {
-          clearTimeout(pending.ackTimer);
+    if (
+      !pending ||
+      pending.transport !== transport ||
+      pending.message.action !== getInitialAction(message.action)
+    ) {
+      this.logger.warn("Dropping unmatched reply", message.action, message.requestId);
+
+      return;
+    }
+
+    switch (suffix) {
+      case "ack": {
+        if (pending.ackReceived) {
+          this.logger.warn("Dropping duplicate ack", message.action, message.requestId);
 
           break;
         }
 
-        case "success": {
-          pending.resolve?.(message);
-          this.removeFromQueue(initialAction);
+        // Auth app transports report the display of the QR code or the launch of the app before the ack
+        pending.ackReceived   = true;
+        pending.progressPhase = pending.progressPhase || ProgressPhase.ACKNOWLEDGED;
+        this.clock.clearTimeout(pending.ackTimer);
 
-          break;
+        if (transport.capabilities.progress) {
+          this.startTimeoutPhase(pending, TimeoutPhase.SERVER_CHALLENGE);
         }
 
-        case "failure": {
-          pending.reject?.(message.error ? deserializeError(message.error) : message);
-          this.removeFromQueue(initialAction);
+        this.reportProgress(pending, { phase: ProgressPhase.ACKNOWLEDGED });
 
-          break;
+        break;
+      }
+
+      case "progress": {
+        if (message.phase in progressToCurrentPhase) {
+          pending.progressPhase = message.phase;
+        }
+
+        if (message.phase in progressToTimeoutPhase) {
+          this.startTimeoutPhase(pending, progressToTimeoutPhase[message.phase]);
         }
+
+        this.reportProgress(pending, { phase: message.phase, attempt: message.attempt, qrCode: message.qrCode });
+
+        break;
+      }
+
+      case "success": {
+        pending.resolve?.(message);
+        this.removeFromQueue(pending.message.requestId as string);
+
+        break;
+      }
+
+      case "failure": {
+        pending.reject?.(message.error ? deserializeError(message.error) : message);
+        this.removeFromQueue(pending.message.requestId as string);
+
+        break;
       }
     }
   }
 
-  send<T extends Message>(message: Message, timeout: number): Promise<T> {
-    if (this.getPendingMessage(message.action)) {
-      return Promise.reject(new ActionPendingError());
+  /**
+   * Matches a reply without a requestId, as sent by the extension versions which don't echo it,
+   * to the only pending operation of the action on the transport.
+   * With several pending operations of the action the reply is ambiguous and not matched.
+   */
+  private getPendingWithoutRequestId(message: Message, transport: Transport): PendingMessage | undefined {
+    const candidates = Array.from(this.queue.values()).filter((pending) => (
+      pending.transport === transport &&
+      pending.message.action === getInitialAction(message.action)
+    ));
+
+    if (candidates.length !== 1) return undefined;
+
+    this.logger.warn("Reply without requestId matched to the pending operation", message.action);
+
+    return candidates[0];
+  }
+
+  send<T extends Message>(message: Message, timeout: number, options: SendOptions = {}): Promise<T> {
+    const {
+      signal,
+      onProgress,
+      timeouts,
+      concurrency = ConcurrencyPolicy.REJECT,
+    } = options;
+
+    if (!isBrowser()) {
+      return Promise.reject(new EnvironmentUnsupportedError());
+    }
+
+    this.open();
+
+    const transport = this.getTransport(message);
+    const pendingAction = this.getPendingAction(message.action);
+
+    if (signal?.aborted) {
+      return Promise.reject(new ActionAbortedError());
+    }
+
+    if (pendingAction) {
+      switch (concurrency) {
+        case ConcurrencyPolicy.QUEUE: {
+          return this.waitUntilSettled(pendingAction, signal).then(() => this.send<T>(message, timeout, options));
+        }
+
+        case ConcurrencyPolicy.REPLACE: {
+          this.onReplace(pendingAction);
 
-    } else if (!window.isSecureContext) {
+          break;
+        }
+
+        case ConcurrencyPolicy.JOIN: {
+          if (this.isSameMessage(pendingAction.message, message)) {
+            return pendingAction.promise as Promise<T>;
+          }
+
+          return Promise.reject(new ActionPendingError());
+        }
+
+        default: {
+          return Promise.reject(new ActionPendingError());
+        }
+      }
+    }
+
+    if (!window.isSecureContext) {
       return Promise.reject(new ContextInsecureError());
 
+    } else if (!transport) {
+      return Promise.reject(new UnknownError(`no transport available for ${message.action}`));
+
     } else {
-      const pending: PendingMessage = { message };
+      const requestId = generateRequestId();
+
+      message = { ...message, requestId };
 
-      this.queue.push(pending);
+      const pending: PendingMessage = { message, transport, signal, onProgress, timeouts, sentAt: this.clock.now() };
+
+      this.queue.set(requestId, pending);
 
       pending.promise = new Promise((resolve, reject) => {
         pending.resolve = resolve;
         pending.reject = reject;
       });
 
-      pending.ackTimer = window.setTimeout(
+      pending.ackTimer = this.clock.setTimeout(
         () => this.onAckTimeout(pending),
-        config.EXTENSION_HANDSHAKE_TIMEOUT,
+        timeouts?.handshake ?? this.config.EXTENSION_HANDSHAKE_TIMEOUT,
       );
 
-      pending.replyTimer = window.setTimeout(
+      pending.replyTimer = this.clock.setTimeout(
         () => this.onReplyTimeout(pending),
         timeout,
       );
 
-      this.publishMessage(message, timeout);
+      if (signal) {
+        pending.abortListener = (): void => this.onAbort(pending);
+
+        signal.addEventListener("abort", pending.abortListener);
+      }
+
+      transport.send(message, timeout);
 
       return pending.promise as Promise<T>;
     }
   }
 
-  publishMessage(message: Message, timeout: number): void {
-    if (message.useAuthApp && message.useAuthApp == true) {
-      if (isAndroidDevice()) {
-        // Launch auth app.
-        console.log("Launching auth app");
-        this.launchAuthApp(message);
-      } else {
-        // Display QR code.
-        this.displayQRCode(message);
-      }
-      console.log("Polling for success.");
-      this.pollForLoginSuccess(message, timeout).then(
-        (req) => {
-          req.on("response", (res) => {
-            if (res.statusCode == 200) {
-              console.log("Polling request successful: " + res.statusCode);
-              window.postMessage({ action: this.getRelevantSuccessAction(message) }, location.origin);
-            } else {
-              console.log("Polling request unsuccessful: " + res.statusCode);
-              let error;
-              switch (res.statusCode) {
-                case 400:
-                  error = new MissingParameterError("A parameter is missing!");
-                  break;
-                case 403:
-                  error = new ServerRejectedError();
-                  break;
-                case 408:
-                  error = new ServerTimeoutError();
-                  break;
-                case 444:
-                  error = new UserCancelledError();
-                  break;
-                case 449:
-                  error = new UserPinError();
-                  break;
-                default:
-                  error = new UnknownError("Error code: " + res.statusCode);
-              }
-
-              window.postMessage({ action: this.getRelevantErrorAction(message), error: error }, location.origin);
-            }
-          }).on("error", (err) => {
-            console.log("Server unreachable: " + err);
-            window.postMessage( { action: this.getRelevantErrorAction(message), error: new ServerRejectedError() }, location.origin);
-          });
-        }
-      );
-    } else {
-      // Use ID-card reader.
-      window.postMessage(message, "*");
+  /**
+   * Rejects with the timeout error of the phase the operation was in, worked out from the last reported progress,
+   * so that transports which don't report every phase still tell where the time ran out.
+   * Status and operations without any progress reject with ActionTimeoutError.
+   */
+  onReplyTimeout(pending: PendingMessage): void {
+    const phase = pending.message.action !== Action.STATUS && pending.progressPhase
+      ? progressToCurrentPhase[pending.progressPhase] || this.getElapsedPhase(pending)
+      : undefined;
+
+    if (phase) {
+      this.onPhaseTimeout(pending, phase);
+
+      return;
     }
 
+    this.logger.warn("onReplyTimeout", pending.message.action);
+    pending.reject?.(new ActionTimeoutError());
+
+    pending.transport?.cancel(pending.message);
+    this.removeFromQueue(pending.message.requestId as string);
   }
 
-  launchAuthApp(message: Message): void {
-    const intentUrl = new IntentUrl(message);
+  /**
+   * The phase of an operation which has only been acknowledged, like the operations of the browser extension,
+   * which doesn't report its progress. The server challenge phase follows the handshake for its budget
+   * and the user interaction follows that, the token post can't be told apart from the user interaction.
+   * Without the budgets the phase can't be told.
+   */
+  private getElapsedPhase(pending: PendingMessage): TimeoutPhase | undefined {
+    const { handshake = this.config.EXTENSION_HANDSHAKE_TIMEOUT, serverChallenge } = pending.timeouts || {};
 
-    // Since deeplink gives no feedback about app launch, check if browser window lost focus.
-    document.addEventListener("visibilitychange", function sendAckMessage(this: WebExtensionService) {
-      if (document.hidden) {
-        // Send acknowledge message to itself.
-        window.postMessage({ action: this.getRelevantAckAction(message) }, location.origin);
+    if (pending.sentAt === undefined || serverChallenge === undefined) return undefined;
 
-        setTimeout(() => document.removeEventListener("visibilitychange", sendAckMessage), config.EXTENSION_HANDSHAKE_TIMEOUT);
-      }
-    }.bind(this));
+    return this.clock.now() - pending.sentAt < handshake + serverChallenge
+      ? TimeoutPhase.SERVER_CHALLENGE
+      : TimeoutPhase.USER_PIN;
+  }
 
-    window.location.href = intentUrl.toString();
+  onAckTimeout(pending: PendingMessage): void {
+    this.logger.warn("onAckTimeout", pending.message.action);
+    pending.reject?.(pending.transport?.unavailableError(pending.message));
+
+    pending.transport?.cancel(pending.message);
+    this.removeFromQueue(pending.message.requestId as string);
   }
 
-  displayQRCode(message: Message): void {
-    const intentUrl = new IntentUrl(message);
+  onPhaseTimeout(pending: PendingMessage, phase: TimeoutPhase): void {
+    this.logger.warn("onPhaseTimeout", pending.message.action, phase);
+    // The authentication app is polled for until the user has scanned the QR code and entered the PIN
+    pending.reject?.(
+      phase === TimeoutPhase.USER_PIN || phase === TimeoutPhase.POLLING
+        ? new UserTimeoutError(`user failed to respond in time during the ${phase} phase`, phase)
+        : new ServerTimeoutError(`server failed to respond in time during the ${phase} phase`, phase)
+    );
+
+    pending.transport?.cancel(pending.message);
+    this.removeFromQueue(pending.message.requestId as string);
+  }
 
-    const qrCode = QrCode;
+  /**
+   * Restarts the phase timer with the budget of the phase.
+   * Repeated reports of the current phase, for example polling attempts, don't restart the timer.
+   */
+  private startTimeoutPhase(pending: PendingMessage, phase?: TimeoutPhase): void {
+    if (phase && phase === pending.timeoutPhase) return;
 
-    const qr0 = qrCode.encodeText(intentUrl.toString(), Ecc.MEDIUM);
+    this.clock.clearTimeout(pending.phaseTimer);
 
-    const svg = toSvgString(qr0, 24, "#FFF", "#000");
+    pending.timeoutPhase = phase;
+    pending.phaseTimer   = undefined;
 
-    const canvas = document.getElementById("canvas");
-    if (canvas) {
-      canvas.innerHTML = svg;
+    const timeout = phase && pending.timeouts?.[timeoutPhaseToTimeoutsKey[phase]];
+
+    if (phase && timeout) {
+      pending.phaseTimer = this.clock.setTimeout(() => this.onPhaseTimeout(pending, phase), timeout);
     }
-    window.postMessage({ action: this.getRelevantAckAction(message) }, location.origin);
   }
 
-  async pollForLoginSuccess(message: Message, timeout: number): Promise<http.ClientRequest> {
+  onAbort(pending: PendingMessage): void {
+    this.logger.info("onAbort", pending.message.action);
+    pending.reject?.(new ActionAbortedError());
 
-    if (message.getAuthSuccessUrl) {
-      if (!message.getAuthSuccessUrl.startsWith("https://")) {
-        throw new ProtocolInsecureError(`HTTPS required for getAuthSuccessUrl ${message.getAuthSuccessUrl}`);
-      }
-
-      console.log("Polling for success.");
+    pending.transport?.cancel(pending.message);
+    this.removeFromQueue(pending.message.requestId as string);
+  }
 
-      const headers: http.OutgoingHttpHeaders = message.headers;
+  onReplace(pending: PendingMessage): void {
+    this.logger.info("onReplace", pending.message.action);
+    pending.reject?.(new ActionAbortedError("Web eID operation was replaced by a newer one"));
 
-      const url = new URL(message.getAuthSuccessUrl);
+    pending.transport?.cancel(pending.message);
+    this.removeFromQueue(pending.message.requestId as string);
+  }
 
-      const host = url.hostname;
-      const port = url.port;
-      const path = url.pathname;
+  /**
+   * Resolves when the pending operation settles, rejects with ActionAbortedError when the signal is aborted before that.
+   */
+  private waitUntilSettled(pending: PendingMessage, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => reject(new ActionAbortedError());
 
-      const options: http.RequestOptions = {
-        host:    host,
-        port:    port,
-        path:    path,
-        method:  "GET",
-        headers: headers,
-        timeout: timeout,
+      const onSettled = (): void => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
       };
 
-      return https.get(options, () => {
-        console.log("Polling request response received.");
-      });
-    } else {
-      throw new MissingParameterError("getAuthSuccessUrl missing for Android auth app authentication option.");
-    }
+      signal?.addEventListener("abort", onAbort);
+      pending.promise?.then(onSettled, onSettled);
+    });
   }
 
-  async throwAfterTimeout(milliseconds: number, error: Error): Promise<void> {
-    await this.sleep(milliseconds);
-    throw error;
-  }
+  /**
+   * Messages are the same when all their properties, except the request ID, are equal.
+   */
+  private isSameMessage(a: Message, b: Message): boolean {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
 
-  async sleep(milliseconds: number): Promise<void> {
-    return new Promise((resolve) => {
-      setTimeout(() => resolve(), milliseconds);
-    });
-  }
+    keys.delete("requestId");
 
-  getRelevantAckAction(message: Message): Action {
-    let ackAction;
-    switch (message.action) {
-      case Action.AUTHENTICATE:
-        ackAction = Action.AUTHENTICATE_ACK;
-        break;
-      case Action.SIGN:
-        ackAction = Action.SIGN_ACK;
-        break;
-      case Action.STATUS:
-        ackAction = Action.STATUS_ACK;
-        break;
-      default:
-        ackAction = Action.STATUS_ACK;
-        break;
-    }
-    return ackAction;
+    return Array.from(keys).every((key) => JSON.stringify(a[key]) === JSON.stringify(b[key]));
   }
 
-  getRelevantSuccessAction(message: Message): Action {
-    let ackAction;
-    switch (message.action) {
-      case Action.AUTHENTICATE:
-        ackAction = Action.AUTHENTICATE_SUCCESS;
-        break;
-      case Action.SIGN:
-        ackAction = Action.SIGN_SUCCESS;
-        break;
-      case Action.STATUS:
-        ackAction = Action.STATUS_SUCCESS;
-        break;
-      default:
-        ackAction = Action.STATUS_SUCCESS;
-        break;
-    }
-    return ackAction;
-  }
+  reportProgress(pending: PendingMessage, progress: Pick<Progress, "phase" | "attempt" | "qrCode">): void {
+    if (!pending.onProgress || !progress.phase) return;
 
-  getRelevantErrorAction(message: Message): Action {
-    let rejectAction;
-    switch (message.action) {
-      case Action.AUTHENTICATE:
-        rejectAction = Action.AUTHENTICATE_FAILURE;
-        break;
-      case Action.SIGN:
-        rejectAction = Action.SIGN_FAILURE;
-        break;
-      case Action.STATUS:
-        rejectAction = Action.STATUS_FAILURE;
-        break;
-      default:
-        rejectAction = Action.STATUS_FAILURE;
-        break;
+    try {
+      pending.onProgress({
+        action:    pending.message.action,
+        requestId: pending.message.requestId as string,
+        ...progress,
+      });
+    } catch (error) {
+      this.logger.error("onProgress callback failed", error);
     }
-    return rejectAction;
   }
 
-  onReplyTimeout(pending: PendingMessage): void {
-    console.log("onReplyTimeout", pending.message.action);
-    pending.reject?.(new ActionTimeoutError());
-
-    this.removeFromQueue(pending.message.action);
-  }
+  /**
+   * Rejects the pending operations and closes the transports.
+   */
+  dispose(): void {
+    for (const pending of Array.from(this.queue.values())) {
+      pending.reject?.(new ActionAbortedError("Web eID client was disposed"));
 
-  onAckTimeout(pending: PendingMessage): void {
-    console.log("onAckTimeout", pending.message.action);
-    if (pending.message.useAuthApp && pending.message.useAuthApp == true) {
-      pending.reject?.(new AuthAppNotInstalledError());
-    } else {
-      pending.reject?.(new ExtensionUnavailableError());
+      pending.transport?.cancel(pending.message);
+      this.removeFromQueue(pending.message.requestId as string);
     }
 
-    this.removeFromQueue(pending.message.action);
-    clearTimeout(pending.replyTimer);
+    for (const transport of this.transports) {
+      this.removeTransport(transport);
+    }
   }
 
-  getPendingMessage(action: string): PendingMessage | undefined {
-    return this.queue.find((pm) => {
-      return pm.message.action === action;
-    });
+  isActionPending(action: string): boolean {
+    return !!this.getPendingAction(action);
   }
 
-  getInitialAction(action: string): string {
-    return action.replace(/-success$|-failure$|-ack$/, "");
+  getPendingAction(action: string): PendingMessage | undefined {
+    return Array.from(this.queue.values()).find((pm) => pm.message.action === action);
   }
 
-  removeFromQueue(action: string): void {
-    const pending = this.getPendingMessage(action);
-
-    clearTimeout(pending?.replyTimer);
+  removeFromQueue(requestId: string): void {
+    const pending = this.queue.get(requestId);
 
-    this.queue = this.queue.filter((pending) => (
-      pending.message.action !== action
-    ));
-  }
+    this.clock.clearTimeout(pending?.ackTimer);
+    this.clock.clearTimeout(pending?.replyTimer);
+    this.clock.clearTimeout(pending?.phaseTimer);
 
+    if (pending?.abortListener) {
+      pending.signal?.removeEventListener("abort", pending.abortListener);
+    }
 
+    this.queue.delete(requestId);
+  }
 }
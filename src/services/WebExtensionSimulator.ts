@@ -0,0 +1,297 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import config from "../config";
+import Action from "../models/Action";
+import Message from "../models/Message";
+import HttpResponse from "../models/HttpResponse";
+import ProgressPhase from "../models/ProgressPhase";
+import Clock from "../models/Clock";
+import ErrorCode from "../errors/ErrorCode";
+import { getAckAction, getFailureAction, getProgressAction, getSuccessAction } from "../utils/action";
+import windowClock from "../utils/clock";
+
+export interface SimulatedBehavior {
+  /**
+   * Whether the action is acknowledged.
+   * When false, the library rejects with ExtensionUnavailableError after the handshake timeout.
+   *
+   * When not specified, defaults to true.
+   */
+  ack?: boolean;
+
+  /**
+   * Time in milliseconds before the ack reply is sent.
+   *
+   * When not specified, defaults to 0.
+   */
+  ackDelay?: number;
+
+  /**
+   * Time in milliseconds between the ack reply and the success or failure reply.
+   * When null, no success or failure reply is sent.
+   *
+   * When not specified, defaults to 0.
+   */
+  replyDelay?: number | null;
+
+  /**
+   * Whether authenticate and sign report their progress with challenge-fetched, waiting-for-pin
+   * and token-posted replies, for testing transports which report the phases.
+   *
+   * When not specified, defaults to false, as the browser extension only acknowledges the operation.
+   */
+  progress?: boolean;
+
+  /**
+   * Error code to reply with. When set, a failure reply is sent instead of a success reply.
+   */
+  error?: ErrorCode;
+
+  /**
+   * Additional properties of the error object, for example a message or the response of a rejected request.
+   */
+  errorProperties?: { [key: string]: any };
+
+  /**
+   * Extension and native application versions of the status reply.
+   *
+   * When not specified, both default to the library version.
+   */
+  versions?: {
+    extension?: string;
+    nativeApp?: string;
+  };
+
+  /**
+   * HTTP response of the authenticate or sign success reply.
+   */
+  response?: HttpResponse;
+}
+
+export interface WebExtensionSimulatorOptions {
+  /**
+   * Source of the timers which delay the replies.
+   *
+   * When not specified, the window timers are used.
+   */
+  clock?: Clock;
+}
+
+const defaultResponse: HttpResponse = {
+  headers:    {},
+  ok:         true,
+  redirected: false,
+  status:     200,
+  statusText: "OK",
+  type:       "basic",
+  url:        "",
+  body:       {},
+};
+
+/**
+ * In-memory stand-in for the Web eID browser extension and native application.
+ *
+ * Listens for web-eid:status, web-eid:authenticate and web-eid:sign messages on window
+ * and replies the way the browser extension does, without a card reader.
+ *
+ * @example
+ *   const simulator = new WebExtensionSimulator().install();
+ *
+ *   simulator.once(Action.AUTHENTICATE, { error: ErrorCode.ERR_WEBEID_USER_CANCELLED });
+ *
+ *   await webeid.authenticate(options); // Rejects with UserCancelledError
+ *
+ *   simulator.uninstall();
+ */
+export default class WebExtensionSimulator {
+  /**
+   * Messages received since the simulator was installed or reset.
+   */
+  received: Message[] = [];
+
+  private behaviors: { [action: string]: SimulatedBehavior } = {};
+
+  private onceBehaviors: { [action: string]: SimulatedBehavior[] } = {};
+
+  private timers: { requestId?: string; timer: number }[] = [];
+
+  private clock: Clock;
+
+  private onWindowMessage = (event: MessageEvent): void => this.receive(event.data);
+
+  constructor(defaultBehavior: SimulatedBehavior = {}, options: WebExtensionSimulatorOptions = {}) {
+    this.clock = options.clock || windowClock;
+
+    for (const action of [Action.STATUS, Action.AUTHENTICATE, Action.SIGN]) {
+      this.behaviors[action] = defaultBehavior;
+    }
+  }
+
+  install(): this {
+    window.addEventListener("message", this.onWindowMessage);
+
+    return this;
+  }
+
+  uninstall(): void {
+    window.removeEventListener("message", this.onWindowMessage);
+
+    this.reset();
+  }
+
+  /**
+   * Sets the behavior for all following messages of the action.
+   */
+  script(action: Action, behavior: SimulatedBehavior): this {
+    this.behaviors[action] = behavior;
+
+    return this;
+  }
+
+  /**
+   * Sets the behavior for the next message of the action.
+   * Behaviors set with once take precedence over the one set with script and are used in the order they were added.
+   */
+  once(action: Action, behavior: SimulatedBehavior): this {
+    this.onceBehaviors[action] = [...(this.onceBehaviors[action] || []), behavior];
+
+    return this;
+  }
+
+  /**
+   * Cancels the scheduled replies and forgets the received messages and one-off behaviors.
+   */
+  reset(): void {
+    this.timers.forEach(({ timer }) => this.clock.clearTimeout(timer));
+
+    this.timers        = [];
+    this.received      = [];
+    this.onceBehaviors = {};
+  }
+
+  private receive(message: Message): void {
+    if (message?.action === Action.CANCEL) {
+      this.received.push(message);
+      this.cancel(message.requestId);
+
+      return;
+    }
+
+    if (!message || !Object.prototype.hasOwnProperty.call(this.behaviors, message.action)) return;
+
+    this.received.push(message);
+
+    const behavior = this.onceBehaviors[message.action]?.shift() || this.behaviors[message.action];
+
+    if (behavior.ack === false) return;
+
+    this.schedule(message, behavior.ackDelay || 0, () => {
+      this.reply({ action: getAckAction(message.action), requestId: message.requestId });
+
+      const progress = behavior.progress && message.action !== Action.STATUS;
+
+      if (progress && message.action === Action.AUTHENTICATE) {
+        this.replyProgress(message, ProgressPhase.CHALLENGE_FETCHED);
+      }
+
+      if (progress) {
+        this.replyProgress(message, ProgressPhase.WAITING_FOR_PIN);
+      }
+
+      if (behavior.replyDelay === null) return;
+
+      this.schedule(message, behavior.replyDelay || 0, () => {
+        if (progress && message.action === Action.AUTHENTICATE && !behavior.error) {
+          this.replyProgress(message, ProgressPhase.TOKEN_POSTED);
+        }
+
+        this.reply(this.createReply(message, behavior));
+      });
+    });
+  }
+
+  private createReply(message: Message, behavior: SimulatedBehavior): Message {
+    const versions = {
+      extension: config.VERSION,
+      nativeApp: config.VERSION,
+      ...behavior.versions,
+    };
+
+    const { requestId } = message;
+
+    if (behavior.error) {
+      return {
+        action: getFailureAction(message.action),
+        requestId,
+        error:  {
+          code:    behavior.error,
+          message: `simulated ${behavior.error}`,
+
+          ...(message.action === Action.STATUS ? versions : {}),
+          ...behavior.errorProperties,
+        },
+      };
+    }
+
+    if (message.action === Action.STATUS) {
+      return { action: getSuccessAction(message.action), requestId, ...versions };
+    }
+
+    return {
+      action:   getSuccessAction(message.action),
+      requestId,
+      response: behavior.response || defaultResponse,
+    };
+  }
+
+  private replyProgress(message: Message, phase: ProgressPhase): void {
+    this.reply({ action: getProgressAction(message.action), requestId: message.requestId, phase });
+  }
+
+  /**
+   * Dispatches the reply as a message from the same window and origin, like the content script of the extension.
+   * A message posted with window.postMessage has no source nor origin in jsdom.
+   */
+  private reply(reply: Message): void {
+    window.dispatchEvent(new MessageEvent("message", {
+      data:   reply,
+      origin: window.location.origin,
+      source: window,
+    }));
+  }
+
+  private schedule(message: Message, delay: number, callback: () => void): void {
+    this.timers.push({ requestId: message.requestId, timer: this.clock.setTimeout(callback, delay) });
+  }
+
+  /**
+   * Drops the scheduled replies of a cancelled request, like the extension closing its PIN dialog.
+   */
+  private cancel(requestId?: string): void {
+    for (const { timer } of this.timers.filter((t) => t.requestId === requestId)) {
+      this.clock.clearTimeout(timer);
+    }
+
+    this.timers = this.timers.filter((t) => t.requestId !== requestId);
+  }
+}
@@ -0,0 +1,78 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import Clock from "../../models/Clock";
+
+interface FakeTimer {
+  at:       number;
+  callback: () => void;
+}
+
+/**
+ * Clock which only advances when told to, firing the timers which are due.
+ */
+export default class FakeClock implements Clock {
+  private time = 0;
+
+  private lastTimer = 0;
+
+  private timers = new Map<number, FakeTimer>();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number): number {
+    this.timers.set(++this.lastTimer, { at: this.time + delay, callback });
+
+    return this.lastTimer;
+  }
+
+  clearTimeout(timer?: number): void {
+    if (timer !== undefined) {
+      this.timers.delete(timer);
+    }
+  }
+
+  /**
+   * Advances the time, firing the due timers in order.
+   */
+  tick(milliseconds: number): void {
+    const end = this.time + milliseconds;
+
+    for (;;) {
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= end)
+        .sort(([, a], [, b]) => a.at - b.at)[0];
+
+      if (!due) break;
+
+      const [id, timer] = due;
+
+      this.timers.delete(id);
+      this.time = timer.at;
+      timer.callback();
+    }
+
+    this.time = end;
+  }
+}
@@ -0,0 +1,385 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { webcrypto } from "crypto";
+
+import config from "../../config";
+import Action from "../../models/Action";
+import HttpResponse from "../../models/HttpResponse";
+import ProgressPhase from "../../models/ProgressPhase";
+import TimeoutPhase from "../../models/TimeoutPhase";
+import ErrorCode from "../../errors/ErrorCode";
+import WebEidClient from "../WebEidClient";
+import WebExtensionSimulator from "../WebExtensionSimulator";
+import FakeClock from "./FakeClock";
+
+describe("WebEidClient with WebExtensionSimulator", () => {
+  let simulator: WebExtensionSimulator;
+  let client: WebEidClient;
+  let onOriginMismatch: jest.Mock;
+
+  beforeAll(() => {
+    Object.defineProperty(window, "isSecureContext", { value: true, configurable: true });
+    Object.defineProperty(window, "crypto", { value: webcrypto, configurable: true });
+  });
+
+  beforeEach(() => {
+    onOriginMismatch = jest.fn();
+    simulator        = new WebExtensionSimulator().install();
+    client           = new WebEidClient({ extension: { onOriginMismatch } });
+  });
+
+  afterEach(() => {
+    client.dispose();
+    simulator.uninstall();
+  });
+
+  it("resolves status with the versions of the simulator", async () => {
+    await expect(client.status()).resolves.toMatchObject({
+      library:   config.VERSION,
+      extension: config.VERSION,
+      nativeApp: config.VERSION,
+    });
+
+    expect(simulator.received.map(({ action }) => action)).toEqual([Action.STATUS]);
+    expect(onOriginMismatch).not.toHaveBeenCalled();
+  });
+
+  it("rejects status with the error of the simulator", async () => {
+    simulator.once(Action.STATUS, { error: ErrorCode.ERR_WEBEID_NATIVE_UNAVAILABLE });
+
+    await expect(client.status()).rejects.toMatchObject({ code: ErrorCode.ERR_WEBEID_NATIVE_UNAVAILABLE });
+    expect(onOriginMismatch).not.toHaveBeenCalled();
+  });
+
+  it("delays the replies on the clock of the simulator", async () => {
+    const clock = new FakeClock();
+
+    simulator.uninstall();
+    client.dispose();
+
+    simulator = new WebExtensionSimulator({ ackDelay: 500 }, { clock }).install();
+    client    = new WebEidClient({ clock });
+
+    const onSettled = jest.fn();
+    const result    = client.status();
+
+    result.then(onSettled, onSettled);
+
+    for (let i = 0; i < 5; i++) await new Promise((resolve) => setTimeout(resolve));
+
+    expect(simulator.received).toHaveLength(1);
+    expect(onSettled).not.toHaveBeenCalled();
+
+    clock.tick(500);
+
+    await expect(result).resolves.toMatchObject({ nativeApp: config.VERSION });
+  });
+
+  describe("authenticate and sign", () => {
+    const authenticateOptions = {
+      getAuthChallengeUrl: "https://ria.ee/auth/challenge",
+      postAuthTokenUrl:    "https://ria.ee/auth/token",
+    };
+
+    const signOptions = {
+      postPrepareSigningUrl:  "https://ria.ee/sign/prepare",
+      postFinalizeSigningUrl: "https://ria.ee/sign/finalize",
+    };
+
+    const response: HttpResponse = {
+      headers:    { "content-type": "application/json" },
+      ok:         true,
+      redirected: false,
+      status:     200,
+      statusText: "OK",
+      type:       "basic",
+      url:        "https://ria.ee/sign/finalize",
+      body:       { documentId: "123" },
+    };
+
+    it("resolves authenticate with the response of the simulator", async () => {
+      await expect(client.authenticate(authenticateOptions)).resolves.toMatchObject({ ok: true, status: 200 });
+
+      expect(simulator.received).toEqual([
+        expect.objectContaining({ ...authenticateOptions, action: Action.AUTHENTICATE }),
+      ]);
+    });
+
+    it("resolves sign with the scripted response", async () => {
+      simulator.script(Action.SIGN, { response });
+
+      await expect(client.sign(signOptions)).resolves.toEqual(response);
+      await expect(client.sign(signOptions)).resolves.toEqual(response);
+
+      expect(simulator.received.map(({ action }) => action)).toEqual([Action.SIGN, Action.SIGN]);
+    });
+
+    it("rejects authenticate with the scripted error", async () => {
+      simulator.once(Action.AUTHENTICATE, { error: ErrorCode.ERR_WEBEID_USER_CANCELLED, replyDelay: 10 });
+
+      await expect(client.authenticate(authenticateOptions)).rejects.toMatchObject({
+        name: "UserCancelledError",
+        code: ErrorCode.ERR_WEBEID_USER_CANCELLED,
+      });
+      await expect(client.authenticate(authenticateOptions)).resolves.toMatchObject({ ok: true });
+    });
+
+    it("rejects sign with the error properties of the scripted error", async () => {
+      simulator.once(Action.SIGN, {
+        error:           ErrorCode.ERR_WEBEID_SERVER_REJECTED,
+        errorProperties: { response: { ...response, ok: false, status: 409 } },
+      });
+
+      await expect(client.sign(signOptions)).rejects.toMatchObject({
+        code:     ErrorCode.ERR_WEBEID_SERVER_REJECTED,
+        response: { status: 409 },
+      });
+    });
+
+    it("only acknowledges like the extension unless progress is enabled", async () => {
+      const onProgress = jest.fn();
+
+      await client.authenticate({ ...authenticateOptions, onProgress });
+
+      expect(onProgress.mock.calls.map(([{ phase }]) => phase)).toEqual([ProgressPhase.ACKNOWLEDGED]);
+
+      onProgress.mockClear();
+      simulator.once(Action.AUTHENTICATE, { progress: true });
+
+      await client.authenticate({ ...authenticateOptions, onProgress });
+
+      expect(onProgress.mock.calls.map(([{ phase }]) => phase)).toEqual([
+        ProgressPhase.ACKNOWLEDGED,
+        ProgressPhase.CHALLENGE_FETCHED,
+        ProgressPhase.WAITING_FOR_PIN,
+        ProgressPhase.TOKEN_POSTED,
+      ]);
+    });
+  });
+
+  describe("detect", () => {
+    it("reports the native application only when it answers with its version", async () => {
+      await expect(client.detect()).resolves.toMatchObject({ extension: true, nativeApp: true });
+
+      simulator.once(Action.STATUS, { versions: { nativeApp: undefined } });
+
+      await expect(client.detect()).resolves.toMatchObject({ extension: true, nativeApp: false });
+    });
+
+    it("doesn't report the native application when only the ack arrives in time", async () => {
+      simulator.once(Action.STATUS, { replyDelay: null });
+
+      await expect(client.detect(50)).resolves.toMatchObject({ extension: true, nativeApp: false });
+    });
+
+    it("doesn't report the extension when nothing acknowledges within a short timeout", async () => {
+      const clock = new FakeClock();
+
+      simulator.uninstall();
+      client.dispose();
+
+      client = new WebEidClient({ clock, settings: { EXTENSION_HANDSHAKE_TIMEOUT: 3000 } });
+
+      const result = client.detect(300);
+
+      for (let i = 0; i < 5; i++) await new Promise((resolve) => setTimeout(resolve));
+
+      clock.tick(300);
+
+      await expect(result).resolves.toMatchObject({ extension: false, nativeApp: false });
+    });
+
+    it("joins a pending status check", async () => {
+      simulator.once(Action.STATUS, { replyDelay: 50 });
+
+      const status = client.status();
+
+      await new Promise((resolve) => setTimeout(resolve));
+
+      await expect(client.detect()).resolves.toMatchObject({ extension: true, nativeApp: true });
+      await expect(status).resolves.toMatchObject({ nativeApp: config.VERSION });
+      expect(simulator.received.filter(({ action }) => action === Action.STATUS)).toHaveLength(1);
+    });
+  });
+  describe("metrics", () => {
+    let clock: FakeClock;
+    let onMetrics: jest.Mock;
+
+    const flush = async (): Promise<void> => {
+      for (let i = 0; i < 10; i++) await new Promise((resolve) => setTimeout(resolve));
+    };
+
+    const authenticateOptions = {
+      getAuthChallengeUrl: "https://ria.ee/auth/challenge",
+      postAuthTokenUrl:    "https://ria.ee/auth/token",
+    };
+
+    const originalFetch = window.fetch;
+
+    beforeEach(() => {
+      simulator.uninstall();
+      client.dispose();
+
+      clock     = new FakeClock();
+      onMetrics = jest.fn();
+      simulator = new WebExtensionSimulator({}, { clock }).install();
+      client    = new WebEidClient({ clock, onMetrics });
+    });
+
+    afterEach(() => {
+      window.fetch = originalFetch;
+    });
+
+    it("records the transport, the acknowledgement and the completion", async () => {
+      simulator.once(Action.AUTHENTICATE, { ackDelay: 100, replyDelay: 500 });
+
+      const result = client.authenticate(authenticateOptions);
+
+      await flush();
+      clock.tick(600);
+
+      await expect(result).resolves.toMatchObject({ ok: true });
+      expect(onMetrics).toHaveBeenCalledTimes(1);
+      expect(onMetrics).toHaveBeenCalledWith({
+        action:          Action.AUTHENTICATE,
+        requestId:       simulator.received[0].requestId,
+        transport:       "extension",
+        startedAt:       0,
+        acknowledgedAt:  100,
+        pollingAttempts: [],
+        completedAt:     600,
+        duration:        600,
+        success:         true,
+        versions:        { library: config.VERSION },
+      });
+    });
+
+    it("records the versions of the status check", async () => {
+      const result = client.status();
+
+      await flush();
+      clock.tick(0);
+      await result;
+
+      simulator.once(Action.STATUS, {
+        error:    ErrorCode.ERR_WEBEID_NATIVE_UNAVAILABLE,
+        versions: { extension: "2.0.0", nativeApp: undefined },
+      });
+
+      const failed = client.status().catch((error) => error);
+
+      await flush();
+      clock.tick(0);
+      await failed;
+
+      expect(onMetrics.mock.calls.map(([metrics]) => metrics)).toEqual([
+        expect.objectContaining({
+          success:  true,
+          versions: { library: config.VERSION, extension: config.VERSION, nativeApp: config.VERSION },
+        }),
+        expect.objectContaining({
+          success:   false,
+          errorCode: ErrorCode.ERR_WEBEID_NATIVE_UNAVAILABLE,
+          versions:  { library: config.VERSION, extension: "2.0.0", nativeApp: undefined },
+        }),
+      ]);
+    });
+
+    it("records the error code and the timeout phase", async () => {
+      simulator.once(Action.AUTHENTICATE, { replyDelay: null });
+
+      const result = client.authenticate(authenticateOptions).catch((error) => error);
+
+      await flush();
+      clock.tick(10 * 60 * 1000);
+
+      expect(await result).toMatchObject({ code: ErrorCode.ERR_WEBEID_USER_TIMEOUT });
+      expect(onMetrics).toHaveBeenCalledWith(expect.objectContaining({
+        success:        false,
+        acknowledgedAt: 0,
+        errorCode:      ErrorCode.ERR_WEBEID_USER_TIMEOUT,
+        timeoutPhase:   TimeoutPhase.USER_PIN,
+      }));
+    });
+
+    it("records the QR code and the polling attempts of the authentication app", async () => {
+      const unknownOutcome = async (): Promise<Response> => ({ status: 204 }) as Response;
+
+      // The outcome is known on the third attempt
+      const fetch = jest.fn()
+        .mockImplementationOnce(unknownOutcome)
+        .mockImplementationOnce(unknownOutcome)
+        .mockImplementationOnce(async () => ({
+          headers:    new Map<string, string>(),
+          ok:         true,
+          redirected: false,
+          status:     200,
+          statusText: "OK",
+          type:       "basic",
+          url:        "https://ria.ee/auth/success",
+          text:       async () => "{}",
+        }));
+
+      window.fetch = fetch;
+      client.dispose();
+      client = new WebEidClient({ clock, onMetrics, qrCodeTarget: jest.fn() });
+
+      const result = client.authenticate({
+        ...authenticateOptions,
+        useAuthApp:        true,
+        getAuthSuccessUrl: "https://ria.ee/auth/success",
+        pollingInterval:   1000,
+      });
+
+      for (let i = 0; i < 10 && !onMetrics.mock.calls.length; i++) {
+        await flush();
+        clock.tick(1000);
+      }
+
+      await expect(result).resolves.toMatchObject({ status: 200 });
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(onMetrics).toHaveBeenCalledWith(expect.objectContaining({
+        transport:         "qr-code",
+        qrCodeDisplayedAt: 0,
+        acknowledgedAt:    0,
+        pollingAttempts:   [0, 1000, expect.any(Number)],
+        success:           true,
+      }));
+    });
+
+    it("doesn't let a throwing handler break the operation", async () => {
+      onMetrics.mockImplementation(() => {
+        throw new Error("metrics backend is down");
+      });
+
+      const result = client.status();
+
+      await flush();
+      clock.tick(0);
+
+      await expect(result).resolves.toMatchObject({ nativeApp: config.VERSION });
+      expect(onMetrics).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,412 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { webcrypto } from "crypto";
+
+import Action from "../../models/Action";
+import Message from "../../models/Message";
+import ProgressPhase from "../../models/ProgressPhase";
+import TimeoutPhase from "../../models/TimeoutPhase";
+import ConcurrencyPolicy from "../../models/ConcurrencyPolicy";
+import Transport, { TransportListener } from "../../models/Transport";
+import ErrorCode from "../../errors/ErrorCode";
+import ExtensionUnavailableError from "../../errors/ExtensionUnavailableError";
+import WebExtensionService from "../WebExtensionService";
+import ExtensionTransport from "../transports/ExtensionTransport";
+import QrCodeTransport from "../transports/QrCodeTransport";
+import AndroidAppTransport from "../transports/AndroidAppTransport";
+import FakeClock from "./FakeClock";
+
+class FakeTransport implements Transport {
+  readonly name = "fake";
+
+  readonly capabilities = {
+    actions:  [Action.STATUS, Action.AUTHENTICATE, Action.SIGN],
+    cancel:   true,
+    progress: true,
+  };
+
+  sent: Message[] = [];
+
+  cancelled: Message[] = [];
+
+  private listener?: TransportListener;
+
+  accepts(): boolean {
+    return true;
+  }
+
+  open(listener: TransportListener): void {
+    this.listener = listener;
+  }
+
+  send(message: Message): void {
+    this.sent.push(message);
+  }
+
+  cancel(message: Message): void {
+    this.cancelled.push(message);
+  }
+
+  close(): void {
+    this.listener = undefined;
+  }
+
+  unavailableError(): Error {
+    return new ExtensionUnavailableError();
+  }
+
+  reply(suffix: string, properties: { [key: string]: any } = {}, message = this.sent[this.sent.length - 1]): void {
+    this.listener?.({ ...properties, action: `${message.action}-${suffix}`, requestId: message.requestId });
+  }
+}
+
+describe("WebExtensionService", () => {
+  let clock: FakeClock;
+  let transport: FakeTransport;
+  let service: WebExtensionService;
+
+  beforeAll(() => {
+    Object.defineProperty(window, "isSecureContext", { value: true, configurable: true });
+    Object.defineProperty(window, "crypto", { value: webcrypto, configurable: true });
+  });
+
+  beforeEach(() => {
+    clock     = new FakeClock();
+    transport = new FakeTransport();
+    service   = new WebExtensionService({ transports: [transport], clock });
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  it("resolves with the success reply which echoes the request ID", async () => {
+    const result = service.send({ action: Action.STATUS }, 5000);
+
+    expect(transport.sent[0].requestId).toMatch(/^[0-9a-f]{32}$/);
+
+    transport.reply("ack");
+    transport.reply("success", { nativeApp: "1.0.0" });
+
+    await expect(result).resolves.toMatchObject({ action: "web-eid:status-success", nativeApp: "1.0.0" });
+  });
+
+  it("matches a reply without a request ID to the only pending operation of the action", async () => {
+    const result = service.send({ action: Action.AUTHENTICATE }, 5000);
+    const legacy = { ...transport.sent[0], requestId: undefined };
+
+    transport.reply("ack", {}, legacy);
+    clock.tick(1000);
+    transport.reply("success", { unverifiedCertificate: "MIIB" }, legacy);
+
+    await expect(result).resolves.toMatchObject({ action: "web-eid:authenticate-success" });
+    expect(transport.cancelled).toHaveLength(0);
+  });
+
+  it("drops a reply without a request ID when no operation of the action is pending", async () => {
+    const result = service.send({ action: Action.AUTHENTICATE }, 5000);
+
+    transport.reply("ack", {}, { action: Action.SIGN });
+    clock.tick(1000);
+
+    await expect(result).rejects.toBeInstanceOf(ExtensionUnavailableError);
+  });
+
+  it("rejects with the unavailable error of the transport when the ack times out", async () => {
+    const result = service.send({ action: Action.STATUS }, 5000);
+
+    clock.tick(999);
+    transport.reply("ack", {}, { ...transport.sent[0], requestId: "unknown" });
+    clock.tick(1);
+
+    await expect(result).rejects.toBeInstanceOf(ExtensionUnavailableError);
+    expect(transport.cancelled).toHaveLength(1);
+  });
+
+  it("rejects with ActionTimeoutError when the reply times out after the ack", async () => {
+    const result = service.send({ action: Action.STATUS }, 5000);
+
+    transport.reply("ack");
+    clock.tick(4999);
+
+    expect(transport.cancelled).toHaveLength(0);
+
+    clock.tick(1);
+
+    await expect(result).rejects.toMatchObject({ code: ErrorCode.ERR_WEBEID_ACTION_TIMEOUT });
+    expect(transport.cancelled).toHaveLength(1);
+  });
+
+  it("uses the handshake timeout of the options for the ack", async () => {
+    const result = service.send({ action: Action.STATUS }, 5000, { timeouts: { handshake: 200 } });
+
+    clock.tick(200);
+
+    await expect(result).rejects.toBeInstanceOf(ExtensionUnavailableError);
+  });
+
+  it("deserializes the error of the failure reply", async () => {
+    const result = service.send({ action: Action.AUTHENTICATE }, 5000);
+
+    transport.reply("ack");
+    transport.reply("failure", { error: { code: ErrorCode.ERR_WEBEID_USER_CANCELLED, message: "cancelled" } });
+
+    await expect(result).rejects.toMatchObject({
+      name:    "UserCancelledError",
+      code:    ErrorCode.ERR_WEBEID_USER_CANCELLED,
+      message: "cancelled",
+    });
+  });
+
+  it("times the phases reported by the transport", async () => {
+    const onProgress = jest.fn();
+
+    const result = service.send({ action: Action.AUTHENTICATE }, 60000, {
+      onProgress,
+      timeouts: { serverChallenge: 3000, userPin: 10000 },
+    });
+
+    transport.reply("ack");
+    clock.tick(2000);
+    transport.reply("progress", { phase: ProgressPhase.CHALLENGE_FETCHED });
+    transport.reply("progress", { phase: ProgressPhase.WAITING_FOR_PIN });
+    clock.tick(10000);
+
+    await expect(result).rejects.toMatchObject({
+      code:  ErrorCode.ERR_WEBEID_USER_TIMEOUT,
+      phase: TimeoutPhase.USER_PIN,
+    });
+
+    expect(onProgress.mock.calls.map(([progress]) => progress.phase)).toEqual([
+      ProgressPhase.ACKNOWLEDGED,
+      ProgressPhase.CHALLENGE_FETCHED,
+      ProgressPhase.WAITING_FOR_PIN,
+    ]);
+  });
+
+  it("reports a server timeout when the challenge isn't fetched in time", async () => {
+    const result = service.send({ action: Action.AUTHENTICATE }, 60000, { timeouts: { serverChallenge: 3000 } });
+
+    transport.reply("ack");
+    clock.tick(3000);
+
+    await expect(result).rejects.toMatchObject({
+      code:  ErrorCode.ERR_WEBEID_SERVER_TIMEOUT,
+      phase: TimeoutPhase.SERVER_CHALLENGE,
+    });
+  });
+
+  it("drops a duplicate ack without restarting the timers", async () => {
+    const onProgress = jest.fn();
+
+    const result = service.send({ action: Action.AUTHENTICATE }, 60000, {
+      onProgress,
+      timeouts: { serverChallenge: 3000 },
+    });
+
+    transport.reply("ack");
+    clock.tick(2000);
+    transport.reply("ack");
+    clock.tick(1000);
+
+    await expect(result).rejects.toMatchObject({
+      code:  ErrorCode.ERR_WEBEID_SERVER_TIMEOUT,
+      phase: TimeoutPhase.SERVER_CHALLENGE,
+    });
+
+    expect(onProgress.mock.calls.map(([progress]) => progress.phase)).toEqual([ProgressPhase.ACKNOWLEDGED]);
+  });
+
+  it("rejects with ActionAbortedError when the signal is aborted", async () => {
+    const controller = new AbortController();
+
+    const result = service.send({ action: Action.AUTHENTICATE }, 5000, { signal: controller.signal });
+
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ code: ErrorCode.ERR_WEBEID_ACTION_ABORTED });
+    expect(transport.cancelled).toHaveLength(1);
+  });
+
+  describe("concurrency", () => {
+    it("rejects a second operation with the same action by default", async () => {
+      const first = service.send({ action: Action.SIGN }, 5000);
+
+      await expect(service.send({ action: Action.SIGN }, 5000)).rejects.toMatchObject({
+        code: ErrorCode.ERR_WEBEID_ACTION_PENDING,
+      });
+
+      service.dispose();
+
+      await expect(first).rejects.toMatchObject({ code: ErrorCode.ERR_WEBEID_ACTION_ABORTED });
+    });
+
+    it("joins an operation with identical options", async () => {
+      const first  = service.send({ action: Action.SIGN, lang: "et" }, 5000);
+      const second = service.send({ action: Action.SIGN, lang: "et" }, 5000, { concurrency: ConcurrencyPolicy.JOIN });
+
+      expect(second).toBe(first);
+      expect(transport.sent).toHaveLength(1);
+
+      transport.reply("ack");
+      transport.reply("success");
+
+      await expect(second).resolves.toMatchObject({ action: "web-eid:sign-success" });
+    });
+
+    it("replaces the pending operation", async () => {
+      const first  = service.send({ action: Action.SIGN }, 5000);
+      const second = service.send({ action: Action.SIGN }, 5000, { concurrency: ConcurrencyPolicy.REPLACE });
+
+      await expect(first).rejects.toMatchObject({ code: ErrorCode.ERR_WEBEID_ACTION_ABORTED });
+
+      transport.reply("ack");
+      transport.reply("success");
+
+      await expect(second).resolves.toMatchObject({ action: "web-eid:sign-success" });
+    });
+
+    it("queues an operation until the pending one settles", async () => {
+      const first  = service.send({ action: Action.SIGN }, 5000);
+      const second = service.send({ action: Action.SIGN }, 5000, { concurrency: ConcurrencyPolicy.QUEUE });
+
+      expect(transport.sent).toHaveLength(1);
+
+      transport.reply("ack");
+      transport.reply("success");
+
+      await first;
+      await new Promise((resolve) => setTimeout(resolve));
+
+      expect(transport.sent).toHaveLength(2);
+
+      transport.reply("ack");
+      transport.reply("success");
+
+      await expect(second).resolves.toMatchObject({ action: "web-eid:sign-success" });
+    });
+  });
+
+  describe("reply timeout of the built-in transports", () => {
+    const authAppMessage: Message = {
+      action:              Action.AUTHENTICATE,
+      useAuthApp:          true,
+      getAuthChallengeUrl: "https://ria.ee/auth/challenge",
+      postAuthTokenUrl:    "https://ria.ee/auth/token",
+      getAuthSuccessUrl:   "https://ria.ee/auth/success",
+    };
+
+    const flush = async (): Promise<void> => {
+      for (let i = 0; i < 10; i++) await new Promise((resolve) => setTimeout(resolve));
+    };
+
+    beforeEach(() => {
+      // The outcome of the auth app operation is not known yet
+      window.fetch = jest.fn(async () => ({ status: 204 }) as Response);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const sendToExtension = (timeout: number): Promise<Message> => {
+      const postMessage = jest.spyOn(window, "postMessage").mockImplementation(() => undefined);
+
+      service.dispose();
+      service = new WebExtensionService({ transports: [new ExtensionTransport()], clock });
+
+      const result = service.send({ action: Action.AUTHENTICATE }, timeout, {
+        timeouts: { handshake: 1000, serverChallenge: 5000, userPin: 40000, tokenPost: 14000 },
+      });
+
+      const [[{ requestId }]] = postMessage.mock.calls;
+
+      window.dispatchEvent(new MessageEvent("message", {
+        data:   { action: Action.AUTHENTICATE_ACK, requestId },
+        origin: window.location.origin,
+        source: window,
+      }));
+
+      return result;
+    };
+
+    it("rejects with the user PIN phase when the extension only acknowledges", async () => {
+      const result = sendToExtension(60000);
+
+      clock.tick(60000);
+
+      await expect(result).rejects.toMatchObject({
+        code:  ErrorCode.ERR_WEBEID_USER_TIMEOUT,
+        phase: TimeoutPhase.USER_PIN,
+      });
+    });
+
+    it("rejects with the server challenge phase when the reply times out within its budget", async () => {
+      const result = sendToExtension(5999);
+
+      clock.tick(5999);
+
+      await expect(result).rejects.toMatchObject({
+        code:  ErrorCode.ERR_WEBEID_SERVER_TIMEOUT,
+        phase: TimeoutPhase.SERVER_CHALLENGE,
+      });
+    });
+
+    it("rejects with a user timeout in the polling phase when the QR code is not scanned", async () => {
+      document.body.innerHTML = "<div id=\"canvas\"></div>";
+
+      service.dispose();
+      service = new WebExtensionService({ transports: [new QrCodeTransport({ clock })], clock });
+
+      const result = service.send(authAppMessage, 60000);
+
+      await flush();
+      clock.tick(60000);
+
+      await expect(result).rejects.toMatchObject({
+        code:  ErrorCode.ERR_WEBEID_USER_TIMEOUT,
+        phase: TimeoutPhase.POLLING,
+      });
+    });
+
+    it("rejects with the user PIN phase when the Android app is launched", async () => {
+      jest.spyOn(navigator, "userAgent", "get").mockReturnValue("Mozilla/5.0 (Linux; Android 13)");
+      jest.spyOn(document, "hidden", "get").mockReturnValue(true);
+      // jsdom doesn't implement navigating to the intent URL
+      jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+      service.dispose();
+      service = new WebExtensionService({ transports: [new AndroidAppTransport({ clock })], clock });
+
+      const result = service.send(authAppMessage, 60000);
+
+      document.dispatchEvent(new Event("visibilitychange"));
+      clock.tick(60000);
+
+      await expect(result).rejects.toMatchObject({
+        code:  ErrorCode.ERR_WEBEID_USER_TIMEOUT,
+        phase: TimeoutPhase.USER_PIN,
+      });
+    });
+  });
+});
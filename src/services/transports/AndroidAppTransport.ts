@@ -0,0 +1,78 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import Message from "../../models/Message";
+import ProgressPhase from "../../models/ProgressPhase";
+import IntentUrl from "../../models/IntentUrl";
+import AuthAppTransport from "./AuthAppTransport";
+import { isAndroidDevice } from "../../utils/device";
+import { getAckAction } from "../../utils/action";
+
+/**
+ * Launches the authentication app installed on the same Android device.
+ */
+export default class AndroidAppTransport extends AuthAppTransport {
+  readonly name = "android-app";
+
+  private visibilityListeners = new Map<Message, () => void>();
+
+  accepts(message: Message): boolean {
+    return super.accepts(message) && isAndroidDevice();
+  }
+
+  protected present(message: Message): void {
+    const intentUrl = new IntentUrl(message);
+
+    const base        = this.config.AUTH_APP_INTENT_URL_BASE;
+    const packageName = message.authAppPackageName || this.config.AUTH_APP_PACKAGE_NAME;
+    const fallbackUrl = message.authAppFallbackUrl || this.config.AUTH_APP_FALLBACK_URL;
+
+    // Android intent URLs send the users without the app to the fallback URL or the Play Store right away
+    const url = packageName
+      ? intentUrl.toAndroidIntentString({ packageName, fallbackUrl: fallbackUrl || undefined, base })
+      : intentUrl.toString(base);
+
+    // Since deeplink gives no feedback about app launch, check if browser window lost focus.
+    const onVisibilityChange = (): void => {
+      if (document.hidden) {
+        this.dismiss(message);
+        this.replyProgress(message, ProgressPhase.APP_LAUNCHED);
+        this.reply(message, getAckAction(message.action));
+      }
+    };
+
+    this.visibilityListeners.set(message, onVisibilityChange);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+
+    this.logger.info("Launching auth app");
+    window.location.href = url;
+  }
+
+  protected dismiss(message: Message): void {
+    const onVisibilityChange = this.visibilityListeners.get(message);
+
+    if (onVisibilityChange) {
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      this.visibilityListeners.delete(message);
+    }
+  }
+}
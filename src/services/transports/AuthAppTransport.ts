@@ -0,0 +1,261 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import defaultConfig, { Config } from "../../config";
+import Action from "../../models/Action";
+import Message from "../../models/Message";
+import HttpResponse from "../../models/HttpResponse";
+import ProgressPhase from "../../models/ProgressPhase";
+import Transport, { TransportCapabilities, TransportListener } from "../../models/Transport";
+import Clock from "../../models/Clock";
+import AuthAppNotInstalledError from "../../errors/AuthAppNotInstalledError";
+import MissingParameterError from "../../errors/MissingParameterError";
+import ProtocolInsecureError from "../../errors/ProtocolInsecureError";
+import ServerRejectedError from "../../errors/ServerRejectedError";
+import { serializeError } from "../../utils/errorSerializer";
+import { getFailureAction, getProgressAction, getSuccessAction } from "../../utils/action";
+import poll from "../../utils/poller";
+import listen from "../../utils/pushChannel";
+import defaultLogger, { Logger } from "../../utils/logger";
+import windowClock from "../../utils/clock";
+
+export interface AuthAppTransportOptions {
+  config?: Readonly<Config>;
+  logger?: Logger;
+  clock?:  Clock;
+}
+
+/**
+ * Base class for the Android authentication app flows.
+ *
+ * The app receives the operation parameters from an IntentUrl and communicates with the backend directly,
+ * the outcome of the operation is received from authEventsUrl or found out by polling getAuthSuccessUrl.
+ * Subclasses decide how the IntentUrl is presented to the app.
+ */
+export default abstract class AuthAppTransport implements Transport {
+  abstract readonly name: string;
+
+  readonly capabilities: TransportCapabilities = {
+    actions: [Action.AUTHENTICATE, Action.SIGN],
+    cancel:  true,
+  };
+
+  private listener?: TransportListener;
+
+  private outcomes = new Map<Message, AbortController>();
+
+  protected config: Readonly<Config>;
+
+  protected logger: Logger;
+
+  protected clock: Clock;
+
+  constructor(options: AuthAppTransportOptions = {}) {
+    this.config = options.config || defaultConfig;
+    this.logger = options.logger || defaultLogger;
+    this.clock  = options.clock || windowClock;
+  }
+
+  accepts(message: Message): boolean {
+    return !!message.useAuthApp;
+  }
+
+  open(listener: TransportListener): void {
+    this.listener = listener;
+  }
+
+  send(message: Message, timeout: number): void {
+    if (!message.getAuthSuccessUrl && !message.authEventsUrl) {
+      this.replyFailure(
+        message,
+        new MissingParameterError("getAuthSuccessUrl missing for Android auth app authentication option."),
+      );
+    } else if (message.getAuthSuccessUrl && !message.getAuthSuccessUrl.startsWith("https://")) {
+      this.replyFailure(
+        message,
+        new ProtocolInsecureError(`HTTPS required for getAuthSuccessUrl ${message.getAuthSuccessUrl}`),
+      );
+    } else if (message.authEventsUrl && !/^(https|wss):\/\//.test(message.authEventsUrl)) {
+      this.replyFailure(
+        message,
+        new ProtocolInsecureError(`HTTPS or WSS required for authEventsUrl ${message.authEventsUrl}`),
+      );
+    } else if (message.pairingUrl && !message.pairingUrl.startsWith("https://")) {
+      this.replyFailure(
+        message,
+        new ProtocolInsecureError(`HTTPS required for pairingUrl ${message.pairingUrl}`),
+      );
+    } else {
+      const controller = new AbortController();
+
+      this.outcomes.set(message, controller);
+
+      let presented: void | Promise<void>;
+
+      try {
+        presented = this.present(message, controller.signal);
+      } catch (error) {
+        this.outcomes.delete(message);
+        this.dismiss(message);
+        this.replyFailure(message, error);
+
+        return;
+      }
+
+      if (presented) {
+        presented.then(
+          () => this.waitForOutcome(message, timeout, controller.signal),
+          (error) => {
+            // Presenting a cancelled operation is aborted
+            if (!this.outcomes.delete(message)) return;
+
+            this.dismiss(message);
+            this.replyFailure(message, error);
+          },
+        );
+      } else {
+        this.waitForOutcome(message, timeout, controller.signal);
+      }
+    }
+  }
+
+  cancel(message: Message): void {
+    const controller = this.outcomes.get(message);
+
+    this.outcomes.delete(message);
+    controller?.abort();
+
+    this.dismiss(message);
+  }
+
+  close(): void {
+    for (const message of Array.from(this.outcomes.keys())) {
+      this.cancel(message);
+    }
+
+    this.listener = undefined;
+  }
+
+  unavailableError(): Error {
+    return new AuthAppNotInstalledError();
+  }
+
+  /**
+   * Hands the operation over to the authentication app.
+   * The ack reply should be sent once the app has been reached.
+   *
+   * Presenting may be asynchronous, the signal is aborted when the operation is cancelled in the meantime.
+   */
+  protected abstract present(message: Message, signal: AbortSignal): void | Promise<void>;
+
+  /**
+   * Reverts the changes made in present, once the operation has been cancelled or its outcome is known.
+   */
+  protected abstract dismiss(message: Message): void;
+
+  /**
+   * Fails an operation which has been presented, for example when the QR code can no longer be refreshed.
+   */
+  protected fail(message: Message, error: Error): void {
+    const controller = this.outcomes.get(message);
+
+    if (!controller) return;
+
+    this.outcomes.delete(message);
+    controller.abort();
+
+    this.dismiss(message);
+    this.replyFailure(message, error);
+  }
+
+  /**
+   * Passes a reply to the message on to the listener, echoing the request ID of the message.
+   */
+  protected reply(message: Message, action: Action, properties: { [key: string]: any } = {}): void {
+    this.listener?.({ ...properties, action, requestId: message.requestId });
+  }
+
+  protected replyFailure(message: Message, error: Error): void {
+    this.reply(message, getFailureAction(message.action), { error: serializeError(error) });
+  }
+
+  protected replyProgress(message: Message, phase: ProgressPhase, properties: { [key: string]: any } = {}): void {
+    this.reply(message, getProgressAction(message.action), { ...properties, phase });
+  }
+
+  private waitForOutcome(message: Message, timeout: number, signal: AbortSignal): void {
+    if (signal.aborted) return;
+
+    this.fetchOutcome(message, timeout, signal).then(
+      (response) => {
+        if (!this.outcomes.delete(message)) return;
+
+        this.dismiss(message);
+
+        this.logger.info("Auth app operation succeeded", response.status);
+        this.reply(message, getSuccessAction(message.action), { response });
+      },
+      (error) => {
+        // Waiting for the outcome of a cancelled operation is aborted
+        if (!this.outcomes.delete(message)) return;
+
+        this.dismiss(message);
+
+        this.logger.warn("Auth app operation failed", error);
+        this.replyFailure(message, error);
+      },
+    );
+  }
+
+  private async fetchOutcome(message: Message, timeout: number, signal: AbortSignal): Promise<HttpResponse> {
+    const deadline = this.clock.now() + timeout;
+
+    if (message.authEventsUrl) {
+      this.logger.debug("Listening for success", message.authEventsUrl);
+      this.replyProgress(message, ProgressPhase.LISTENING);
+
+      const response = await listen(message.authEventsUrl, signal);
+
+      if (response) return response;
+
+      if (!message.getAuthSuccessUrl) {
+        throw new ServerRejectedError("authEventsUrl channel closed before the outcome was received");
+      }
+
+      this.logger.warn("Events channel closed, falling back to polling");
+    }
+
+    this.logger.debug("Polling for success", message.getAuthSuccessUrl);
+
+    return await poll(message.getAuthSuccessUrl, {
+      headers:           message.headers,
+      interval:          message.pollingInterval || this.config.DEFAULT_POLLING_INTERVAL,
+      backoffMultiplier: message.pollingBackoffMultiplier || this.config.DEFAULT_POLLING_BACKOFF_MULTIPLIER,
+      maxInterval:       message.maxPollingInterval || this.config.DEFAULT_MAX_POLLING_INTERVAL,
+      credentials:       message.pollingCredentials,
+      timeout:           Math.max(deadline - this.clock.now(), 0),
+      signal:            signal,
+      clock:             this.clock,
+      onAttempt:         (attempt) => this.replyProgress(message, ProgressPhase.POLLING, { attempt }),
+    });
+  }
+}
@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import Action from "../../models/Action";
+import Message from "../../models/Message";
+import Transport, { TransportCapabilities, TransportListener } from "../../models/Transport";
+import ExtensionUnavailableError from "../../errors/ExtensionUnavailableError";
+import OriginMismatchError from "../../errors/OriginMismatchError";
+import defaultLogger, { Logger } from "../../utils/logger";
+import { getInitialAction } from "../../utils/action";
+
+export interface ExtensionTransportOptions {
+  /**
+   * Origins of other windows, for example iframes, which are trusted to reply to the messages.
+   *
+   * Replies are always accepted from the same window and origin.
+   */
+  trustedOrigins?: string[];
+
+  /**
+   * Called with an OriginMismatchError when a message from an untrusted window or origin is rejected.
+   */
+  onOriginMismatch?: (error: OriginMismatchError, event: MessageEvent) => void;
+
+  logger?: Logger;
+}
+
+/**
+ * Whether the action is a reply of the extension, as opposed to a request posted by the library itself.
+ */
+function isExtensionReply(action: unknown): boolean {
+  return typeof action == "string" && action.startsWith("web-eid:") && getInitialAction(action) !== action;
+}
+
+/**
+ * Delivers messages to the Web eID browser extension via window.postMessage.
+ */
+export default class ExtensionTransport implements Transport {
+  readonly name = "extension";
+
+  readonly capabilities: TransportCapabilities = {
+    actions: [Action.STATUS, Action.AUTHENTICATE, Action.SIGN],
+    cancel:  true,
+  };
+
+  private listener?: TransportListener;
+
+  private options: ExtensionTransportOptions;
+
+  private logger: Logger;
+
+  private onWindowMessage = (event: MessageEvent): void => {
+    // The requests of the library are posted to the same window, they are not replies to validate
+    if (!isExtensionReply(event.data?.action)) return;
+
+    if (!this.isTrusted(event)) {
+      const error = new OriginMismatchError(`rejected ${event.data.action} message from origin ${event.origin}`);
+
+      this.logger.warn("Rejected message from untrusted window or origin", event.origin, event.data.action);
+      this.options.onOriginMismatch?.(error, event);
+
+      return;
+    }
+
+    this.listener?.(event.data);
+  };
+
+  constructor(options: ExtensionTransportOptions = {}) {
+    this.options = options;
+    this.logger  = options.logger || defaultLogger;
+  }
+
+  accepts(message: Message): boolean {
+    return !message.useAuthApp;
+  }
+
+  open(listener: TransportListener): void {
+    this.listener = listener;
+
+    window.addEventListener("message", this.onWindowMessage);
+  }
+
+  send(message: Message): void {
+    window.postMessage(message, "*");
+  }
+
+  cancel(message: Message): void {
+    window.postMessage({ action: Action.CANCEL, requestId: message.requestId }, "*");
+  }
+
+  close(): void {
+    window.removeEventListener("message", this.onWindowMessage);
+
+    this.listener = undefined;
+  }
+
+  unavailableError(): Error {
+    return new ExtensionUnavailableError();
+  }
+
+  private isTrusted(event: MessageEvent): boolean {
+    if (event.source === window && event.origin === window.location.origin) {
+      return true;
+    }
+
+    return (this.options.trustedOrigins || []).includes(event.origin);
+  }
+}
@@ -0,0 +1,301 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import Message from "../../models/Message";
+import ProgressPhase from "../../models/ProgressPhase";
+import IntentUrl from "../../models/IntentUrl";
+import PairingUrl from "../../models/PairingUrl";
+import QrCodeInfo from "../../models/QrCodeInfo";
+import QrCodeTarget, { QrCodeRendering } from "../../models/QrCodeTarget";
+import { QrCode } from "../../models/qrcode/QrCode";
+import { QrSegment } from "../../models/qrcode/QrSegment";
+import { Ecc } from "../../models/qrcode/Ecc";
+import QrCodeNotRenderedError from "../../errors/QrCodeNotRenderedError";
+import MissingParameterError from "../../errors/MissingParameterError";
+import AuthAppTransport, { AuthAppTransportOptions } from "./AuthAppTransport";
+import { isAndroidDevice } from "../../utils/device";
+import { getAckAction } from "../../utils/action";
+import { toSvgString, QrCodeRenderOptions } from "../../utils/qrcode";
+import { createPairing, expirePairing, refreshPairing, PairingSession } from "../../utils/pairing";
+
+/**
+ * Pairing sessions are refreshed this long before they expire, allowing for the time of the request.
+ */
+const PAIRING_REFRESH_MARGIN = 2000;
+
+export interface QrCodeTransportOptions extends AuthAppTransportOptions {
+  /**
+   * Where the QR code is displayed.
+   *
+   * When not specified, the QR code is displayed in the element with the ID canvas.
+   */
+  target?: QrCodeTarget;
+
+  /**
+   * Border width and colours of the SVG document of the QR code, see toSvgString.
+   *
+   * When not specified, the QR code has a border of 24 modules, light modules are #FFFFFF and dark modules #000000.
+   */
+  renderOptions?: QrCodeRenderOptions;
+}
+
+/**
+ * Displays a QR code for the authentication app on another device to scan.
+ *
+ * When refreshing is configured, the QR code is replaced with a new one on an interval and the pairing sessions
+ * of the replaced ones are expired, so a stale screenshot of the QR code fails instead of starting an old operation.
+ * Refreshing requires pairingUrl.
+ *
+ * The operation fails with QrCodeNotRenderedError when the target element is not found or the render callback throws.
+ */
+export default class QrCodeTransport extends AuthAppTransport {
+  readonly name = "qr-code";
+
+  private pairings = new Map<Message, PairingSession>();
+
+  private displayed = new Set<Message>();
+
+  private refreshTimers = new Map<Message, number>();
+
+  private target: QrCodeTarget;
+
+  private renderOptions: QrCodeRenderOptions;
+
+  constructor(options: QrCodeTransportOptions = {}) {
+    super(options);
+
+    this.target        = options.target || "#canvas";
+    this.renderOptions = { border: 24, ...options.renderOptions };
+  }
+
+  accepts(message: Message): boolean {
+    return super.accepts(message) && !isAndroidDevice();
+  }
+
+  protected present(message: Message, signal: AbortSignal): void | Promise<void> {
+    const intentUrl = new IntentUrl(message);
+
+    if (message.pairingUrl) {
+      return this.presentPairing(message, intentUrl, signal);
+    }
+
+    // Without a pairing session, the server can't tell a replaced QR code from the current one
+    if (this.getRefreshInterval(message)) {
+      throw new MissingParameterError("pairingUrl is required for refreshing the QR code", "pairingUrl");
+    }
+
+    this.display(message, this.encode(intentUrl));
+  }
+
+  /**
+   * Creates a pairing session for the intent URL and displays a QR code which refers to the session.
+   */
+  private async presentPairing(message: Message, intentUrl: IntentUrl, signal: AbortSignal): Promise<void> {
+    const { pairingUrl, headers } = message;
+
+    const session = await createPairing(
+      pairingUrl,
+      intentUrl.toString(this.config.AUTH_APP_INTENT_URL_BASE),
+      { headers, signal, clock: this.clock },
+    );
+
+    this.presentSession(message, session, signal);
+  }
+
+  /**
+   * Displays a QR code which refers to the pairing session and schedules replacing the session with a new one,
+   * after the refresh interval or shortly before the session expires.
+   */
+  private presentSession(message: Message, session: PairingSession, signal: AbortSignal): void {
+    this.pairings.set(message, session);
+
+    // The operation was cancelled while the session was being created or refreshed
+    if (signal.aborted) {
+      this.dismiss(message);
+
+      return;
+    }
+
+    this.logger.info("Pairing session expires at", new Date(session.expiresAt).toISOString());
+
+    const now      = this.clock.now();
+    const lifetime = session.expiresAt - now;
+    const delay    = Math.min(
+      this.getRefreshInterval(message) || Infinity,
+      Math.max(lifetime - PAIRING_REFRESH_MARGIN, lifetime / 2),
+    );
+
+    const pairingUrl = new PairingUrl(message.pairingUrl, session.sessionId);
+    const qrCode     = QrCode.encodeText(pairingUrl.toString(this.config.AUTH_APP_INTENT_URL_BASE), Ecc.MEDIUM);
+
+    this.display(message, {
+      qrCode,
+      info: { version: qrCode.version, size: qrCode.size, compact: false, expiresAt: Math.round(now + delay) },
+    });
+
+    this.scheduleRefresh(message, delay, () => this.refreshSession(message, session, signal));
+  }
+
+  private async refreshSession(message: Message, session: PairingSession, signal: AbortSignal): Promise<void> {
+    const { pairingUrl, headers } = message;
+
+    let refreshed: PairingSession;
+
+    try {
+      refreshed = await refreshPairing(pairingUrl, session.sessionId, { headers, signal, clock: this.clock });
+    } catch (error) {
+      // Refreshing the session of a cancelled operation is aborted
+      if (!signal.aborted) {
+        this.logger.warn("Refreshing the pairing session failed", error);
+        this.fail(message, error);
+      }
+
+      return;
+    }
+
+    try {
+      this.presentSession(message, refreshed, signal);
+    } catch (error) {
+      this.fail(message, error);
+    }
+  }
+
+  private getRefreshInterval(message: Message): number {
+    return message.qrCodeRefreshInterval || this.config.DEFAULT_QR_CODE_REFRESH_INTERVAL;
+  }
+
+  private scheduleRefresh(message: Message, delay: number, refresh: () => void): void {
+    const timer = this.clock.setTimeout(() => {
+      this.refreshTimers.delete(message);
+      refresh();
+    }, delay);
+
+    this.refreshTimers.set(message, timer);
+  }
+
+  /**
+   * Displays the QR code, the operation is acknowledged when the first QR code is displayed.
+   *
+   * @throws QrCodeNotRenderedError when the QR code could not be rendered
+   */
+  private display(message: Message, { qrCode, info }: { qrCode: QrCode; info: QrCodeInfo }): void {
+    const isRefresh = this.displayed.has(message);
+
+    this.render({ qrCode, svg: toSvgString(qrCode, this.renderOptions), info });
+    this.displayed.add(message);
+
+    this.replyProgress(message, ProgressPhase.QR_CODE_DISPLAYED, { qrCode: info });
+
+    if (!isRefresh) {
+      this.reply(message, getAckAction(message.action));
+    }
+  }
+
+  /**
+   * Renders the QR code into the target, or removes it when the rendering is null.
+   *
+   * @throws QrCodeNotRenderedError when the target element is not found or the render callback throws
+   */
+  private render(rendering: QrCodeRendering | null): void {
+    const { target } = this;
+
+    if (typeof target == "function") {
+      try {
+        target(rendering);
+      } catch (error) {
+        throw new QrCodeNotRenderedError(`QR code render callback failed: ${error?.message ?? error}`);
+      }
+
+      return;
+    }
+
+    const element = typeof target == "string" ? document.querySelector(target) : target;
+
+    if (!element || !element.isConnected) {
+      throw new QrCodeNotRenderedError(`QR code target ${typeof target == "string" ? target : "element"} not found`);
+    }
+
+    element.innerHTML = rendering ? rendering.svg : "";
+  }
+
+  /**
+   * Encodes the intent URL into a QR code.
+   *
+   * When config.AUTH_APP_COMPACT_INTENT_URL is set, the compact form is encoded into an alphanumeric segment,
+   * unless the QR code of the plain intent URL is smaller.
+   */
+  private encode(intentUrl: IntentUrl): { qrCode: QrCode; info: QrCodeInfo } {
+    const base   = this.config.AUTH_APP_INTENT_URL_BASE;
+    const qrCode = QrCode.encodeText(intentUrl.toString(base), Ecc.MEDIUM);
+
+    if (!this.config.AUTH_APP_COMPACT_INTENT_URL) {
+      return { qrCode, info: { version: qrCode.version, size: qrCode.size, compact: false } };
+    }
+
+    const compactQrCode = QrCode.encodeSegments(
+      [
+        ...QrSegment.makeSegments(`${base}?${IntentUrl.COMPACT_PARAMETER}=`),
+        QrSegment.makeAlphanumeric(intentUrl.compactPayload()),
+      ],
+      Ecc.MEDIUM,
+    );
+
+    const uncompacted = { version: qrCode.version, size: qrCode.size };
+
+    this.logger.info(
+      `Compact intent URL QR code is version ${compactQrCode.version} (${compactQrCode.size}x${compactQrCode.size}), ` +
+      `plain intent URL QR code is version ${qrCode.version} (${qrCode.size}x${qrCode.size})`,
+    );
+
+    if (compactQrCode.version > qrCode.version) {
+      return { qrCode, info: { ...uncompacted, compact: false, uncompacted } };
+    }
+
+    return {
+      qrCode: compactQrCode,
+      info:   { version: compactQrCode.version, size: compactQrCode.size, compact: true, uncompacted },
+    };
+  }
+
+  protected dismiss(message: Message): void {
+    this.clock.clearTimeout(this.refreshTimers.get(message));
+    this.refreshTimers.delete(message);
+
+    if (this.displayed.delete(message)) {
+      try {
+        this.render(null);
+      } catch (error) {
+        this.logger.warn("Removing the QR code failed", error);
+      }
+    }
+
+    const session = this.pairings.get(message);
+
+    if (session) {
+      this.pairings.delete(message);
+
+      expirePairing(message.pairingUrl, session.sessionId, { headers: message.headers }).catch((error) => {
+        this.logger.warn("Expiring the pairing session failed", error);
+      });
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import Action from "../../../models/Action";
+import Message from "../../../models/Message";
+import defaultConfig from "../../../config";
+import AndroidAppTransport from "../AndroidAppTransport";
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve));
+}
+
+describe("AndroidAppTransport", () => {
+  const location = window.location;
+
+  let launched: string[];
+  let transport: AndroidAppTransport;
+  let message: Message;
+
+  beforeAll(() => {
+    jest.spyOn(navigator, "userAgent", "get").mockReturnValue("Mozilla/5.0 (Linux; Android 12)");
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    launched = [];
+
+    // jsdom doesn't implement navigation, record the launched URLs instead
+    delete (window as any).location;
+    (window as any).location = {
+      set href(url: string) {
+        launched.push(url);
+      },
+    };
+
+    // The outcome is not known yet
+    window.fetch = jest.fn(async () => ({ status: 204 }) as Response);
+
+    message = {
+      action:              Action.AUTHENTICATE,
+      requestId:           "request-1",
+      useAuthApp:          true,
+      getAuthChallengeUrl: "https://ria.ee/auth/challenge",
+      postAuthTokenUrl:    "https://ria.ee/auth/token",
+      getAuthSuccessUrl:   "https://ria.ee/auth/success",
+    };
+  });
+
+  afterEach(() => {
+    transport.close();
+    window.location = location;
+  });
+
+  const launch = async (config = defaultConfig): Promise<string> => {
+    transport = new AndroidAppTransport({ config });
+    transport.open(jest.fn());
+    transport.send(message, 60 * 1000);
+
+    await flush();
+
+    return launched[0];
+  };
+
+  it("launches the app with a deep link by default", async () => {
+    expect(await launch()).toMatch(/^authapp:\/\/start\/\?v=1&/);
+  });
+
+  it("launches the app with an intent URL when authAppPackageName is specified", async () => {
+    message.authAppPackageName = "ee.ria.authapp";
+    message.authAppFallbackUrl = "https://ria.ee/install";
+
+    expect(await launch()).toMatch(new RegExp(
+      "^intent://start/\\?v=1&.*#Intent;scheme=authapp;package=ee\\.ria\\.authapp;" +
+      "S\\.browser_fallback_url=https%3A%2F%2Fria\\.ee%2Finstall;end$",
+    ));
+  });
+
+  it("prefers the options over the settings", async () => {
+    message.authAppPackageName = "ee.ria.authapp";
+
+    const url = await launch({
+      ...defaultConfig,
+      AUTH_APP_PACKAGE_NAME: "com.example.app",
+      AUTH_APP_FALLBACK_URL: "https://example.com/install",
+    });
+
+    expect(url).toContain(";package=ee.ria.authapp;S.browser_fallback_url=https%3A%2F%2Fexample.com%2Finstall;end");
+  });
+});
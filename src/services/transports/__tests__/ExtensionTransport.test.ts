@@ -0,0 +1,133 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { webcrypto } from "crypto";
+
+import Action from "../../../models/Action";
+import Message from "../../../models/Message";
+import OriginMismatchError from "../../../errors/OriginMismatchError";
+import WebExtensionService from "../../WebExtensionService";
+import FakeClock from "../../__tests__/FakeClock";
+import ExtensionTransport, { ExtensionTransportOptions } from "../ExtensionTransport";
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve));
+}
+
+describe("ExtensionTransport", () => {
+  let clock: FakeClock;
+  let service: WebExtensionService;
+  let onOriginMismatch: jest.Mock;
+  let postMessage: jest.SpyInstance;
+
+  beforeAll(() => {
+    Object.defineProperty(window, "isSecureContext", { value: true, configurable: true });
+    Object.defineProperty(window, "crypto", { value: webcrypto, configurable: true });
+  });
+
+  beforeEach(() => {
+    clock            = new FakeClock();
+    onOriginMismatch = jest.fn();
+    postMessage      = jest.spyOn(window, "postMessage").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    service.dispose();
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Sends a status message and returns its settlement, which is undefined while it is pending.
+   */
+  const sendStatus = (options: ExtensionTransportOptions = {}): { requestId: string; settled: () => unknown } => {
+    service = new WebExtensionService({
+      transports: [new ExtensionTransport({ ...options, onOriginMismatch })],
+      clock,
+    });
+
+    let settled: unknown;
+
+    service.send({ action: Action.STATUS }, 5000).then(
+      (reply) => { settled = reply; },
+      (error) => { settled = error; },
+    );
+
+    const [[{ requestId }]] = postMessage.mock.calls;
+
+    return { requestId, settled: () => settled };
+  };
+
+  const dispatchReply = (data: Message, init: MessageEventInit): void => {
+    window.dispatchEvent(new MessageEvent("message", { data, ...init }));
+  };
+
+  it("rejects a reply from another origin without settling the operation", async () => {
+    const { requestId, settled } = sendStatus();
+
+    dispatchReply({ action: Action.STATUS_SUCCESS, requestId }, { origin: "https://evil.example.com", source: window });
+    await flush();
+
+    expect(settled()).toBeUndefined();
+    expect(onOriginMismatch).toHaveBeenCalledTimes(1);
+
+    const [error, event] = onOriginMismatch.mock.calls[0];
+
+    expect(error).toBeInstanceOf(OriginMismatchError);
+    expect(error).toMatchObject({ code: "ERR_WEBEID_ORIGIN_MISMATCH" });
+    expect(event.origin).toBe("https://evil.example.com");
+
+    dispatchReply({ action: Action.STATUS_SUCCESS, requestId }, { origin: window.location.origin, source: window });
+    await flush();
+
+    expect(settled()).toMatchObject({ action: Action.STATUS_SUCCESS });
+  });
+
+  it("rejects a reply from another window of the same origin", async () => {
+    const { requestId, settled } = sendStatus();
+
+    dispatchReply({ action: Action.STATUS_SUCCESS, requestId }, { origin: window.location.origin, source: null });
+    await flush();
+
+    expect(settled()).toBeUndefined();
+    expect(onOriginMismatch).toHaveBeenCalledWith(expect.any(OriginMismatchError), expect.any(MessageEvent));
+  });
+
+  it("accepts a reply from a trusted origin", async () => {
+    const { requestId, settled } = sendStatus({ trustedOrigins: ["https://eid.example.com"] });
+
+    dispatchReply({ action: Action.STATUS_SUCCESS, requestId }, { origin: "https://eid.example.com", source: null });
+    await flush();
+
+    expect(settled()).toMatchObject({ action: Action.STATUS_SUCCESS });
+    expect(onOriginMismatch).not.toHaveBeenCalled();
+  });
+
+  it("ignores the messages posted by the library itself", async () => {
+    const { requestId, settled } = sendStatus();
+
+    dispatchReply({ action: Action.STATUS, requestId }, { origin: "https://evil.example.com", source: null });
+    await flush();
+
+    expect(settled()).toBeUndefined();
+    expect(onOriginMismatch).not.toHaveBeenCalled();
+  });
+});
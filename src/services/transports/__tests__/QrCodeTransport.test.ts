@@ -0,0 +1,379 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { webcrypto } from "crypto";
+
+import IntentUrl from "../../../models/IntentUrl";
+import PairingUrl from "../../../models/PairingUrl";
+import Action from "../../../models/Action";
+import Message from "../../../models/Message";
+import ProgressPhase from "../../../models/ProgressPhase";
+import QrCodeInfo from "../../../models/QrCodeInfo";
+import QrCodeTarget from "../../../models/QrCodeTarget";
+import PairingServerSimulator from "../../PairingServerSimulator";
+import FakeClock from "../../__tests__/FakeClock";
+import FakeChannel from "../../../utils/__tests__/FakeChannel";
+import QrCodeTransport from "../QrCodeTransport";
+import { getAckAction } from "../../../utils/action";
+import { toSvgString, QrCodeRenderOptions } from "../../../utils/qrcode";
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve));
+}
+
+describe("QrCodeTransport", () => {
+  let clock: FakeClock;
+  let simulator: PairingServerSimulator;
+  let transport: QrCodeTransport;
+  let listener: jest.Mock;
+  let message: Message;
+
+  const canvas = (): HTMLElement => document.getElementById("canvas") as HTMLElement;
+
+  const acknowledged = async (): Promise<boolean> => {
+    for (let i = 0; i < 10; i++) await flush();
+
+    return listener.mock.calls.some(([reply]) => reply.action === getAckAction(Action.AUTHENTICATE));
+  };
+
+  beforeAll(() => {
+    Object.defineProperty(window, "crypto", { value: webcrypto, configurable: true });
+  });
+
+  beforeEach(() => {
+    document.body.innerHTML = "<div id=\"canvas\"></div>";
+
+    // The outcome is not known yet
+    window.fetch = jest.fn(async () => ({ status: 204 }) as Response);
+
+    clock     = new FakeClock();
+    simulator = new PairingServerSimulator({ clock, expiresIn: 30 }).install();
+    listener  = jest.fn();
+    transport = new QrCodeTransport({ clock });
+
+    transport.open(listener);
+
+    message = {
+      action:              Action.AUTHENTICATE,
+      requestId:           "request-1",
+      useAuthApp:          true,
+      getAuthChallengeUrl: "https://ria.ee/auth/challenge",
+      postAuthTokenUrl:    "https://ria.ee/auth/token",
+      getAuthSuccessUrl:   "https://ria.ee/auth/success",
+      headers:             { "X-CSRF-Token": "secret" },
+      pairingUrl:          simulator.pairingUrl,
+    };
+  });
+
+  const displayed = (): QrCodeInfo[] => listener.mock.calls
+    .filter(([reply]) => reply.phase === ProgressPhase.QR_CODE_DISPLAYED)
+    .map(([reply]) => reply.qrCode);
+
+  afterEach(() => {
+    transport.close();
+    simulator.uninstall();
+  });
+
+  describe("with pairingUrl", () => {
+    it("displays a QR code which refers to a pairing session", async () => {
+      transport.send(message, 60 * 1000);
+
+      expect(await acknowledged()).toBe(true);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        phase:  ProgressPhase.QR_CODE_DISPLAYED,
+        qrCode: expect.objectContaining({ compact: false }),
+      }));
+      expect(canvas().innerHTML).toContain("<svg");
+
+      const [sessionId] = Array.from(simulator.sessions.keys());
+
+      const intentUrl = await simulator.pair(new PairingUrl(simulator.pairingUrl, sessionId).toString());
+
+      expect(intentUrl).toEqual(new IntentUrl(message));
+    });
+
+    it("expires the session when cancelled", async () => {
+      transport.send(message, 60 * 1000);
+
+      await acknowledged();
+
+      transport.cancel(message);
+
+      await flush();
+
+      expect(simulator.received.map(({ method }) => method)).toEqual(["POST", "DELETE"]);
+      expect(simulator.sessions.size).toBe(0);
+      expect(canvas().innerHTML).toBe("");
+    });
+
+    it("expires the session when cancelled while it is being created", async () => {
+      transport.send(message, 60 * 1000);
+      transport.cancel(message);
+
+      expect(await acknowledged()).toBe(false);
+      expect(simulator.sessions.size).toBe(0);
+      expect(canvas().innerHTML).toBe("");
+    });
+
+    it("fails when the session can't be created", async () => {
+      transport.send({ ...message, pairingUrl: simulator.pairingUrl + "/unknown/path" }, 60 * 1000);
+
+      expect(await acknowledged()).toBe(false);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        action: "web-eid:authenticate-failure",
+        error:  expect.objectContaining({ code: "ERR_WEBEID_SERVER_REJECTED" }),
+      }));
+    });
+  });
+
+  describe("refreshing", () => {
+    it("fails without pairingUrl, which the server invalidates the replaced QR codes with", async () => {
+      transport.send({ ...message, pairingUrl: undefined, qrCodeRefreshInterval: 10 * 1000 }, 60 * 1000);
+
+      expect(await acknowledged()).toBe(false);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        action: "web-eid:authenticate-failure",
+        error:  expect.objectContaining({ code: "ERR_WEBEID_MISSING_PARAMETER", parameter: "pairingUrl" }),
+      }));
+      expect(displayed()).toHaveLength(0);
+    });
+
+    it("replaces the pairing session on the interval", async () => {
+      transport.send({ ...message, qrCodeRefreshInterval: 10 * 1000 }, 60 * 1000);
+
+      await acknowledged();
+
+      const [first] = Array.from(simulator.sessions.keys());
+
+      clock.tick(10 * 1000);
+      await acknowledged();
+
+      const [second] = Array.from(simulator.sessions.keys());
+
+      expect(second).not.toBe(first);
+      expect(displayed().map(({ expiresAt }) => expiresAt)).toEqual([10 * 1000, 20 * 1000]);
+
+      await expect(simulator.pair(new PairingUrl(simulator.pairingUrl, first).toString())).rejects.toMatchObject({
+        response: { status: 404 },
+      });
+    });
+
+    it("replaces the pairing session before it expires", async () => {
+      transport.send(message, 60 * 1000);
+
+      await acknowledged();
+
+      expect(displayed()[0].expiresAt).toBe(28 * 1000);
+
+      clock.tick(28 * 1000);
+      await acknowledged();
+
+      expect(simulator.received.map(({ method, url }) => `${method} ${url.endsWith("/refresh") ? "refresh" : ""}`))
+        .toEqual(["POST ", "POST refresh"]);
+      expect(simulator.sessions.size).toBe(1);
+    });
+
+    it("fails when the pairing session can't be refreshed", async () => {
+      transport.send({ ...message, qrCodeRefreshInterval: 10 * 1000 }, 60 * 1000);
+
+      await acknowledged();
+
+      simulator.sessions.clear();
+      clock.tick(10 * 1000);
+      await acknowledged();
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        action: "web-eid:authenticate-failure",
+        error:  expect.objectContaining({ code: "ERR_WEBEID_SERVER_REJECTED" }),
+      }));
+      expect(canvas().innerHTML).toBe("");
+    });
+  });
+
+  describe("authEventsUrl", () => {
+    let uninstall: () => void;
+
+    const listenTo = async (authEventsUrl: string): Promise<FakeChannel> => {
+      transport.send({ ...message, pairingUrl: undefined, authEventsUrl }, 60 * 1000);
+
+      expect(await acknowledged()).toBe(true);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ phase: ProgressPhase.LISTENING }));
+
+      return FakeChannel.opened[0];
+    };
+
+    beforeEach(() => {
+      uninstall = FakeChannel.install();
+    });
+
+    afterEach(() => {
+      uninstall();
+    });
+
+    it("replies with the success outcome of the channel", async () => {
+      const channel = await listenTo("https://ria.ee/auth/events");
+
+      channel.send({ result: "success", body: { name: "John Smith" } });
+      await flush();
+
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({
+        action:   "web-eid:authenticate-success",
+        response: expect.objectContaining({ status: 200, body: { name: "John Smith" } }),
+      }));
+      expect(canvas().innerHTML).toBe("");
+    });
+
+    it("replies with the failure outcome of the channel", async () => {
+      const channel = await listenTo("wss://ria.ee/auth/events");
+
+      channel.send({ result: "failure", error: { code: "ERR_WEBEID_USER_CANCELLED", message: "cancelled" } });
+      await flush();
+
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({
+        action: "web-eid:authenticate-failure",
+        error:  expect.objectContaining({ code: "ERR_WEBEID_USER_CANCELLED" }),
+      }));
+    });
+
+    it("falls back to polling getAuthSuccessUrl when the channel drops", async () => {
+      const fetch = jest.fn(async () => ({
+        headers:    new Map<string, string>(),
+        ok:         true,
+        redirected: false,
+        status:     200,
+        statusText: "OK",
+        type:       "basic",
+        url:        "https://ria.ee/auth/success",
+        text:       async () => JSON.stringify({ name: "John Smith" }),
+      }) as unknown as Response);
+
+      // Replaces the pairing server simulator, which is not used without pairingUrl
+      window.fetch = fetch;
+
+      const channel = await listenTo("wss://ria.ee/auth/events");
+
+      expect(fetch).not.toHaveBeenCalled();
+
+      channel.drop();
+      await acknowledged();
+
+      expect(fetch).toHaveBeenCalledWith("https://ria.ee/auth/success", expect.anything());
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ phase: ProgressPhase.POLLING, attempt: 1 }));
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({
+        action:   "web-eid:authenticate-success",
+        response: expect.objectContaining({ body: { name: "John Smith" } }),
+      }));
+    });
+  });
+
+  describe("target", () => {
+    const sendTo = (target: QrCodeTarget, renderOptions?: QrCodeRenderOptions): Message => {
+      const intentMessage = { ...message, pairingUrl: undefined };
+
+      transport.close();
+      transport = new QrCodeTransport({ clock, target, renderOptions });
+      transport.open(listener);
+      transport.send(intentMessage, 60 * 1000);
+
+      return intentMessage;
+    };
+
+    it("displays the QR code in the element matching the selector", async () => {
+      document.body.innerHTML = "<div class=\"qr-code\"></div>";
+
+      sendTo(".qr-code");
+
+      expect(await acknowledged()).toBe(true);
+      expect(document.body.innerHTML).toContain("<svg");
+    });
+
+    it("passes the QR code to the callback and removes it with null", async () => {
+      const render = jest.fn();
+
+      const intentMessage = sendTo(render);
+
+      expect(await acknowledged()).toBe(true);
+      expect(render).toHaveBeenCalledWith({
+        qrCode: expect.objectContaining({ version: displayed()[0].version }),
+        svg:    expect.stringContaining("<svg"),
+        info:   displayed()[0],
+      });
+
+      transport.cancel(intentMessage);
+
+      expect(render).toHaveBeenLastCalledWith(null);
+    });
+
+    it("renders the SVG document with the render options", async () => {
+      const render = jest.fn();
+
+      sendTo(render, { border: 2, darkColor: "#003168" });
+
+      expect(await acknowledged()).toBe(true);
+
+      const [{ qrCode, svg }] = render.mock.calls[0];
+
+      expect(svg).toBe(toSvgString(qrCode, { border: 2, darkColor: "#003168" }));
+      expect(svg).toContain("fill=\"#003168\"");
+    });
+
+    it("fails instead of acknowledging when the element is not found", async () => {
+      document.body.innerHTML = "";
+
+      sendTo("#canvas");
+
+      expect(await acknowledged()).toBe(false);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        action: "web-eid:authenticate-failure",
+        error:  expect.objectContaining({ code: "ERR_WEBEID_QR_CODE_NOT_RENDERED" }),
+      }));
+      expect(displayed()).toHaveLength(0);
+    });
+
+    it("fails when the callback throws while refreshing", async () => {
+      let renders = 0;
+
+      transport.close();
+      transport = new QrCodeTransport({
+        clock,
+        target: (rendering) => {
+          if (rendering && ++renders > 1) throw new Error("Canvas is gone");
+        },
+      });
+      transport.open(listener);
+      transport.send({ ...message, qrCodeRefreshInterval: 10 * 1000 }, 60 * 1000);
+
+      expect(await acknowledged()).toBe(true);
+
+      clock.tick(10 * 1000);
+      await acknowledged();
+
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({
+        action: "web-eid:authenticate-failure",
+        error:  expect.objectContaining({
+          code:    "ERR_WEBEID_QR_CODE_NOT_RENDERED",
+          message: "QR code render callback failed: Canvas is gone",
+        }),
+      }));
+    });
+  });
+});
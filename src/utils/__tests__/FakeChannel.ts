@@ -0,0 +1,70 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Stand-in for EventSource and WebSocket, which records the opened channels and lets the test send messages.
+ */
+export default class FakeChannel extends EventTarget {
+  static opened: FakeChannel[] = [];
+
+  closed = false;
+
+  constructor(readonly url: string) {
+    super();
+
+    FakeChannel.opened.push(this);
+  }
+
+  /**
+   * Replaces the EventSource and WebSocket of the window until the returned function is called.
+   */
+  static install(): () => void {
+    const originals = { EventSource: window.EventSource, WebSocket: window.WebSocket };
+
+    FakeChannel.opened = [];
+
+    for (const name of ["EventSource", "WebSocket"]) {
+      Object.defineProperty(window, name, { value: FakeChannel, configurable: true, writable: true });
+    }
+
+    return (): void => {
+      for (const [name, value] of Object.entries(originals)) {
+        Object.defineProperty(window, name, { value, configurable: true, writable: true });
+      }
+    };
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  send(data: unknown): void {
+    this.dispatchEvent(new MessageEvent("message", { data: typeof data == "string" ? data : JSON.stringify(data) }));
+  }
+
+  /**
+   * Drops the channel, with the event of the channel type.
+   */
+  drop(): void {
+    this.dispatchEvent(new Event(this.url.startsWith("wss://") ? "close" : "error"));
+  }
+}
@@ -0,0 +1,49 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { decodeBase45, encodeBase45 } from "../base45";
+
+const bytes = (text: string): Uint8Array => Uint8Array.from(Buffer.from(text));
+
+describe("base45", () => {
+  // Examples from RFC 9285
+  const examples = [
+    ["AB", "BB8"],
+    ["Hello!!", "%69 VD92EX0"],
+    ["base-45", "UJCLQE7W581"],
+    ["ietf!", "QED8WEX0"],
+  ];
+
+  it.each(examples)("encodes %j", (text, encoded) => {
+    expect(encodeBase45(bytes(text))).toBe(encoded);
+  });
+
+  it.each(examples)("decodes %j", (text, encoded) => {
+    expect(decodeBase45(encoded)).toEqual(bytes(text));
+  });
+
+  it("rejects invalid strings", () => {
+    expect(() => decodeBase45("GGW")).toThrow("invalid triplet");
+    expect(() => decodeBase45("abc")).toThrow("invalid character");
+    expect(() => decodeBase45("BB8B")).toThrow("invalid length");
+  });
+});
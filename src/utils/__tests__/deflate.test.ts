@@ -0,0 +1,57 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+import { deflateRaw, inflateRaw } from "../deflate";
+
+describe("deflate", () => {
+  const text = Buffer.from(
+    "v=1&action=web-eid%3Aauthenticate" +
+    "&getAuthChallengeUrl=https%3A%2F%2Fria.ee%2Fauth%2Fchallenge" +
+    "&postAuthTokenUrl=https%3A%2F%2Fria.ee%2Fauth%2Ftoken" +
+    "&lang=et".repeat(50),
+  );
+
+  it("compresses data which zlib can decompress", () => {
+    const compressed = deflateRaw(text);
+
+    expect(compressed.length).toBeLessThan(text.length / 2);
+    expect(inflateRawSync(compressed)).toEqual(text);
+  });
+
+  it("decompresses data compressed by zlib", () => {
+    expect(Buffer.from(inflateRaw(deflateRawSync(text)))).toEqual(text); // dynamic Huffman codes
+    expect(Buffer.from(inflateRaw(deflateRawSync(text, { level: 0 })))).toEqual(text); // stored block
+  });
+
+  it("round-trips empty and binary data", () => {
+    const binary = Uint8Array.from({ length: 1000 }, (_, i) => (i * 7919) % 256);
+
+    expect(inflateRaw(deflateRaw(new Uint8Array()))).toEqual(new Uint8Array());
+    expect(inflateRaw(deflateRaw(binary))).toEqual(binary);
+  });
+
+  it("rejects truncated data", () => {
+    expect(() => inflateRaw(deflateRaw(text).slice(0, 10))).toThrow("ends unexpectedly");
+  });
+});
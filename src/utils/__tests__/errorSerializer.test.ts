@@ -0,0 +1,67 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { deserializeError, serializeError } from "../errorSerializer";
+import ErrorCode from "../../errors/ErrorCode";
+import TimeoutPhase from "../../models/TimeoutPhase";
+import NativeFatalError from "../../errors/NativeFatalError";
+import ServerTimeoutError from "../../errors/ServerTimeoutError";
+import UnknownError from "../../errors/UnknownError";
+import VersionMismatchError from "../../errors/VersionMismatchError";
+
+describe("deserializeError", () => {
+  it("creates an instance of the error class of the code", () => {
+    const error = deserializeError({ code: ErrorCode.ERR_WEBEID_NATIVE_FATAL, message: "card reader failed" });
+
+    expect(error).toBeInstanceOf(NativeFatalError);
+    expect(error.message).toBe("card reader failed");
+  });
+
+  it("copies the additional properties", () => {
+    const error = deserializeError({
+      code:           ErrorCode.ERR_WEBEID_VERSION_MISMATCH,
+      requiresUpdate: { extension: true, nativeApp: false },
+      extension:      "0.9.0",
+    });
+
+    expect(error).toBeInstanceOf(VersionMismatchError);
+    expect(error.requiresUpdate).toEqual({ extension: true, nativeApp: false });
+    expect(error.extension).toBe("0.9.0");
+  });
+
+  it("creates an UnknownError for unknown and missing codes", () => {
+    expect(deserializeError({ code: "ERR_SOMETHING_ELSE" })).toBeInstanceOf(UnknownError);
+    expect(deserializeError({ message: "no code" })).toBeInstanceOf(UnknownError);
+  });
+
+  it("restores a serialized error", () => {
+    const error = deserializeError(serializeError(new ServerTimeoutError(undefined, TimeoutPhase.TOKEN_POST)));
+
+    expect(error).toBeInstanceOf(ServerTimeoutError);
+    expect(error).toMatchObject({
+      name:    "ServerTimeoutError",
+      code:    ErrorCode.ERR_WEBEID_SERVER_TIMEOUT,
+      message: "server failed to respond in time",
+      phase:   TimeoutPhase.TOKEN_POST,
+    });
+  });
+});
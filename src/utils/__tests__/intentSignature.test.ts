@@ -0,0 +1,94 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { webcrypto } from "crypto";
+
+import IntentUrl from "../../models/IntentUrl";
+import Action from "../../models/Action";
+import ErrorCode from "../../errors/ErrorCode";
+import { signIntentUrl, verifyIntentUrl } from "../intentSignature";
+
+describe("intentSignature", () => {
+  const authentication = {
+    action:              Action.AUTHENTICATE,
+    getAuthChallengeUrl: "https://ria.ee/auth/challenge",
+    postAuthTokenUrl:    "https://ria.ee/auth/token",
+    headers:             { "Authorization": "Bearer abc=" },
+  };
+
+  let key: CryptoKey;
+
+  beforeAll(async () => {
+    Object.defineProperty(window, "crypto", { value: webcrypto, configurable: true });
+
+    key = await crypto.subtle.generateKey({ name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]) as CryptoKey;
+  });
+
+  async function signedUrl(): Promise<string> {
+    const intentSignature = await signIntentUrl(new IntentUrl(authentication), key);
+
+    return new IntentUrl({ ...authentication, intentSignature }).toString();
+  }
+
+  it("appends the signature as the last parameter", async () => {
+    expect(await signedUrl()).toMatch(/&signature=[\w-]+$/);
+  });
+
+  it("verifies a signed intent URL", async () => {
+    const intentUrl = await verifyIntentUrl(await signedUrl(), key);
+
+    expect(intentUrl.postAuthTokenUrl).toBe(authentication.postAuthTokenUrl);
+    expect(intentUrl.headers).toEqual(authentication.headers);
+  });
+
+  it("rejects a modified intent URL", async () => {
+    const url = (await signedUrl()).replace(
+      encodeURIComponent("https://ria.ee/auth/token"),
+      encodeURIComponent("https://evil.example/token"),
+    );
+
+    await expect(verifyIntentUrl(url, key)).rejects.toMatchObject({
+      code: ErrorCode.ERR_WEBEID_INTENT_SIGNATURE_INVALID,
+    });
+  });
+
+  it("rejects an intent URL without a signature", async () => {
+    await expect(verifyIntentUrl(new IntentUrl(authentication).toString(), key)).rejects.toMatchObject({
+      code:      ErrorCode.ERR_WEBEID_MISSING_PARAMETER,
+      parameter: "signature",
+    });
+  });
+
+  it("verifies an ECDSA signature", async () => {
+    const algorithm = { name: "ECDSA", hash: "SHA-256" };
+    const keyPair   = await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["sign", "verify"],
+    ) as CryptoKeyPair;
+
+    const intentSignature = await signIntentUrl(new IntentUrl(authentication), keyPair.privateKey, algorithm);
+    const url             = new IntentUrl({ ...authentication, intentSignature }).toString();
+
+    await expect(verifyIntentUrl(url, keyPair.publicKey, algorithm)).resolves.toBeInstanceOf(IntentUrl);
+  });
+});
@@ -0,0 +1,161 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import LogLevel from "../../models/LogLevel";
+import { Logger, REDACTED, redact } from "../logger";
+
+describe("Logger", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("is silent by default", () => {
+    const debug = jest.spyOn(console, "debug").mockImplementation(() => undefined);
+    const error = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const sink  = jest.fn();
+
+    new Logger().error("not logged");
+    new Logger({ sink }).error("not logged");
+
+    expect(sink).not.toHaveBeenCalled();
+    expect(debug).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it("logs the levels up to the configured one", () => {
+    const sink   = jest.fn();
+    const logger = new Logger({ level: LogLevel.WARN, sink });
+
+    logger.error("error");
+    logger.warn("warn");
+    logger.info("info");
+    logger.debug("debug");
+
+    expect(sink.mock.calls.map(([{ level }]) => level)).toEqual([LogLevel.ERROR, LogLevel.WARN]);
+
+    logger.configure({ level: LogLevel.DEBUG });
+    logger.debug("debug");
+
+    expect(sink).toHaveBeenLastCalledWith(expect.objectContaining({ level: LogLevel.DEBUG, message: "debug" }));
+  });
+
+  it("passes the entries to a custom sink", () => {
+    const sink = jest.fn();
+
+    jest.spyOn(Date, "now").mockReturnValue(1700000000000);
+
+    new Logger({ level: LogLevel.INFO, sink }).info("Polling for success", "https://ria.ee/auth/success", 2);
+
+    expect(sink).toHaveBeenCalledWith({
+      level:     LogLevel.INFO,
+      message:   "Polling for success",
+      timestamp: 1700000000000,
+      data:      ["https://ria.ee/auth/success", 2],
+    });
+  });
+
+  it("writes to the console without a sink", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    new Logger({ level: LogLevel.WARN }).warn("Dropping unmatched reply", "web-eid:status-success");
+
+    expect(warn).toHaveBeenCalledWith("Dropping unmatched reply", "web-eid:status-success");
+  });
+
+  it("doesn't let a throwing sink break the caller", () => {
+    const logger = new Logger({
+      level: LogLevel.DEBUG,
+      sink:  () => {
+        throw new Error("sink failed");
+      },
+    });
+
+    expect(() => logger.error("error")).not.toThrow();
+  });
+
+  it("redacts the secrets of the logged data", () => {
+    const sink = jest.fn();
+
+    new Logger({ level: LogLevel.DEBUG, sink }).debug("Authorization: Bearer abc.def-ghi", {
+      action:  "web-eid:authenticate",
+      headers: { "X-CSRF-Token": "secret" },
+    });
+
+    expect(sink).toHaveBeenCalledWith(expect.objectContaining({
+      message: `Authorization: Bearer ${REDACTED}`,
+      data:    [{ action: "web-eid:authenticate", headers: REDACTED }],
+    }));
+  });
+});
+
+describe("redact", () => {
+  it("redacts nested headers, nonces and tokens", () => {
+    expect(redact({
+      message: {
+        action:  "web-eid:authenticate",
+        headers: { Authorization: "Bearer abc" },
+        options: [{ nonce: "12345", authToken: { signature: "c2ln" } }],
+      },
+      response: { body: { token: "abc", name: "John Smith" } },
+    })).toEqual({
+      message: {
+        action:  "web-eid:authenticate",
+        headers: REDACTED,
+        options: [{ nonce: REDACTED, authToken: REDACTED }],
+      },
+      response: { body: { token: REDACTED, name: "John Smith" } },
+    });
+  });
+
+  it("redacts Bearer and Basic credentials in strings", () => {
+    expect(redact(["Bearer eyJhbGciOi.eyJzdWIi.c2ln", "failed with Basic dXNlcjpwYXNz= header"])).toEqual([
+      `Bearer ${REDACTED}`,
+      `failed with Basic ${REDACTED} header`,
+    ]);
+  });
+
+  it("replaces circular references", () => {
+    const message: { [key: string]: unknown } = { action: "web-eid:sign" };
+
+    message.self = message;
+
+    expect(redact(message)).toEqual({ action: "web-eid:sign", self: "[Circular]" });
+  });
+
+  it("keeps the name, message and code of errors", () => {
+    const error = Object.assign(new Error("rejected with Bearer abc"), { code: "ERR_WEBEID_SERVER_REJECTED" });
+
+    expect(redact(error)).toEqual({
+      name:    "Error",
+      message: `rejected with Bearer ${REDACTED}`,
+      code:    "ERR_WEBEID_SERVER_REJECTED",
+    });
+  });
+
+  it("doesn't modify the value", () => {
+    const value = { headers: { "X-CSRF-Token": "secret" } };
+
+    redact(value);
+
+    expect(value.headers["X-CSRF-Token"]).toBe("secret");
+  });
+});
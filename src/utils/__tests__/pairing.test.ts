@@ -0,0 +1,122 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { webcrypto } from "crypto";
+
+import IntentUrl from "../../models/IntentUrl";
+import PairingUrl from "../../models/PairingUrl";
+import Action from "../../models/Action";
+import ErrorCode from "../../errors/ErrorCode";
+import PairingServerSimulator from "../../services/PairingServerSimulator";
+import FakeClock from "../../services/__tests__/FakeClock";
+import { createPairing, expirePairing, refreshPairing } from "../pairing";
+
+describe("pairing", () => {
+  const intentUrl = new IntentUrl({
+    action:              Action.AUTHENTICATE,
+    getAuthChallengeUrl: "https://ria.ee/auth/challenge",
+    postAuthTokenUrl:    "https://ria.ee/auth/token",
+    headers:             { "X-CSRF-Token": "secret" },
+  });
+
+  let clock: FakeClock;
+  let simulator: PairingServerSimulator;
+
+  const toPairingUrl = (sessionId: string): string => new PairingUrl(simulator.pairingUrl, sessionId).toString();
+
+  beforeAll(() => {
+    Object.defineProperty(window, "crypto", { value: webcrypto, configurable: true });
+  });
+
+  beforeEach(() => {
+    clock     = new FakeClock();
+    simulator = new PairingServerSimulator({ clock, expiresIn: 30 }).install();
+  });
+
+  afterEach(() => {
+    simulator.uninstall();
+  });
+
+  it("creates a session which can be paired once", async () => {
+    const before  = Date.now();
+    const session = await createPairing(simulator.pairingUrl, intentUrl.toString());
+
+    expect(session.expiresAt).toBeGreaterThanOrEqual(before + 30 * 1000);
+    expect(simulator.received).toEqual([
+      { method: "POST", url: simulator.pairingUrl, body: { intentUrl: intentUrl.toString() } },
+    ]);
+
+    await expect(simulator.pair(toPairingUrl(session.sessionId))).resolves.toEqual(intentUrl);
+    await expect(simulator.pair(toPairingUrl(session.sessionId))).rejects.toMatchObject({
+      code:     ErrorCode.ERR_WEBEID_SERVER_REJECTED,
+      response: { status: 404 },
+    });
+  });
+
+  it("replaces the session when refreshing", async () => {
+    const session   = await createPairing(simulator.pairingUrl, intentUrl.toString());
+    const refreshed = await refreshPairing(simulator.pairingUrl, session.sessionId);
+
+    expect(refreshed.sessionId).not.toBe(session.sessionId);
+
+    await expect(simulator.pair(toPairingUrl(session.sessionId))).rejects.toMatchObject({ response: { status: 404 } });
+    await expect(simulator.pair(toPairingUrl(refreshed.sessionId))).resolves.toEqual(intentUrl);
+  });
+
+  it("can't pair an expired session", async () => {
+    const session = await createPairing(simulator.pairingUrl, intentUrl.toString());
+
+    clock.tick(30 * 1000);
+
+    await expect(simulator.pair(toPairingUrl(session.sessionId))).rejects.toMatchObject({ response: { status: 410 } });
+    await expect(refreshPairing(simulator.pairingUrl, session.sessionId)).rejects.toMatchObject({
+      code: ErrorCode.ERR_WEBEID_SERVER_REJECTED,
+    });
+  });
+
+  it("expires the session", async () => {
+    const session = await createPairing(simulator.pairingUrl, intentUrl.toString());
+
+    await expirePairing(simulator.pairingUrl, session.sessionId);
+
+    expect(simulator.received[1]).toMatchObject({ method: "DELETE", url: `${simulator.pairingUrl}/${session.sessionId}` });
+    expect(simulator.sessions.size).toBe(0);
+  });
+
+  describe("PairingUrl", () => {
+    it("round-trips the session reference", () => {
+      const url = new PairingUrl("https://ria.ee/pairing", "abc-123").toString();
+
+      expect(url).toBe("authapp://start/?v=1&pairingUrl=https%3A%2F%2Fria.ee%2Fpairing&sessionId=abc-123");
+      expect(PairingUrl.isPairingUrl(url)).toBe(true);
+      expect(PairingUrl.isPairingUrl(intentUrl.toString())).toBe(false);
+      expect(PairingUrl.parse(url)).toEqual(new PairingUrl("https://ria.ee/pairing", "abc-123"));
+    });
+
+    it("requires an HTTPS pairing URL", () => {
+      expect(() => new PairingUrl("http://ria.ee/pairing", "abc")).toThrow(expect.objectContaining({
+        parameter: "pairingUrl",
+        code:      ErrorCode.ERR_WEBEID_INVALID_PARAMETER,
+      }));
+    });
+  });
+});
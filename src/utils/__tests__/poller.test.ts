@@ -0,0 +1,84 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import poll from "../poller";
+import FakeClock from "../../services/__tests__/FakeClock";
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve));
+}
+
+describe("poll", () => {
+  let clock: FakeClock;
+  let fetch: jest.Mock;
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    fetch = jest.fn(async () => ({ status: 204 }));
+
+    window.fetch = fetch;
+  });
+
+  const options = {
+    interval:          1000,
+    backoffMultiplier: 2,
+    maxInterval:       3000,
+    timeout:           10000,
+  };
+
+  it("retries with backoff on the clock", async () => {
+    const onAttempt = jest.fn();
+    const result    = poll("https://ria.ee/auth/success", { ...options, clock, onAttempt }).catch((error) => error);
+
+    const attemptsAfter = async (milliseconds: number): Promise<number> => {
+      clock.tick(milliseconds);
+      await flush();
+
+      return fetch.mock.calls.length;
+    };
+
+    expect(await attemptsAfter(0)).toBe(1);
+    expect(await attemptsAfter(999)).toBe(1);
+    expect(await attemptsAfter(1)).toBe(2);
+    expect(await attemptsAfter(1999)).toBe(2);
+    expect(await attemptsAfter(1)).toBe(3);
+    expect(await attemptsAfter(3000)).toBe(4);
+
+    // The interval doesn't grow beyond maxInterval, the last sleep is cut short by the timeout
+    expect(await attemptsAfter(3000)).toBe(5);
+    expect(await attemptsAfter(1000)).toBe(6);
+
+    await expect(result).resolves.toMatchObject({ code: "ERR_WEBEID_SERVER_TIMEOUT" });
+    expect(onAttempt).toHaveBeenCalledTimes(6);
+  });
+
+  it("sends cookies only to the same origin unless credentials are included", async () => {
+    fetch.mockResolvedValue({ status: 403, headers: new Map(), text: async () => "" });
+
+    await expect(poll("https://ria.ee/auth/success", options)).rejects.toMatchObject({
+      code: "ERR_WEBEID_SERVER_REJECTED",
+    });
+    await expect(poll("https://ria.ee/auth/success", { ...options, credentials: "include" })).rejects.toBeDefined();
+
+    expect(fetch.mock.calls.map(([, init]) => init.credentials)).toEqual(["same-origin", "include"]);
+  });
+});
@@ -0,0 +1,83 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import listen from "../pushChannel";
+import FakeChannel from "./FakeChannel";
+
+describe("listen", () => {
+  let uninstall: () => void;
+
+  beforeEach(() => {
+    uninstall = FakeChannel.install();
+  });
+
+  afterEach(() => {
+    uninstall();
+  });
+
+  it("resolves with the success outcome of a Server-Sent Events channel", async () => {
+    const result = listen("https://ria.ee/auth/events");
+    const [channel] = FakeChannel.opened;
+
+    channel.send(": keep-alive");
+    channel.send({ result: "success", body: { name: "John Smith" } });
+
+    await expect(result).resolves.toMatchObject({
+      ok:     true,
+      status: 200,
+      url:    "https://ria.ee/auth/events",
+      body:   { name: "John Smith" },
+    });
+    expect(channel.closed).toBe(true);
+  });
+
+  it("rejects with the failure outcome of a WebSocket channel", async () => {
+    const result = listen("wss://ria.ee/auth/events");
+    const [channel] = FakeChannel.opened;
+
+    channel.send({ result: "failure", error: { code: "ERR_WEBEID_USER_CANCELLED", message: "cancelled" } });
+
+    await expect(result).rejects.toMatchObject({ name: "UserCancelledError", code: "ERR_WEBEID_USER_CANCELLED" });
+    expect(channel.closed).toBe(true);
+  });
+
+  it.each([
+    ["Server-Sent Events", "https://ria.ee/auth/events"],
+    ["WebSocket", "wss://ria.ee/auth/events"],
+  ])("resolves with null when the %s channel drops", async (_, url) => {
+    const result = listen(url);
+
+    FakeChannel.opened[0].drop();
+
+    await expect(result).resolves.toBeNull();
+  });
+
+  it("closes the channel when aborted", async () => {
+    const controller = new AbortController();
+    const result     = listen("wss://ria.ee/auth/events", controller.signal);
+
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ name: "AbortError" });
+    expect(FakeChannel.opened[0].closed).toBe(true);
+  });
+});
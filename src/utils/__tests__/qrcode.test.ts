@@ -0,0 +1,175 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { inflateSync } from "zlib";
+
+import { QrCode } from "../../models/qrcode/QrCode";
+import { Ecc } from "../../models/qrcode/Ecc";
+import { drawToCanvas, toModuleMatrix, toPng, toPngDataUrl, toSvgString, toTerminalString } from "../qrcode";
+
+function readChunks(png: Uint8Array): { [type: string]: Buffer } {
+  const buffer = Buffer.from(png);
+  const chunks: { [type: string]: Buffer } = {};
+
+  for (let offset = 8; offset < buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type   = buffer.toString("ascii", offset + 4, offset + 8);
+
+    chunks[type] = buffer.slice(offset + 8, offset + 8 + length);
+    offset += length + 12;
+  }
+
+  return chunks;
+}
+
+describe("qrcode renderers", () => {
+  const qr = QrCode.encodeText("authapp://start/?v=1", Ecc.MEDIUM);
+
+  describe("toModuleMatrix", () => {
+    it("returns the modules surrounded by the light border", () => {
+      const matrix = toModuleMatrix(qr, 2);
+
+      expect(matrix).toHaveLength(qr.size + 4);
+      expect(matrix[0]).toHaveLength(qr.size + 4);
+      expect(matrix[0].some(Boolean)).toBe(false);
+      expect(matrix[2][2]).toBe(true);
+      expect(matrix[5][7]).toBe(qr.getModule(5, 3));
+    });
+  });
+
+  describe("toSvgString", () => {
+    it("draws the dark modules inside the border with the colours", () => {
+      const svg = toSvgString(qr, { border: 2, lightColor: "#fff", darkColor: "#123456" });
+
+      expect(svg).toContain(`viewBox="0 0 ${qr.size + 4} ${qr.size + 4}"`);
+      expect(svg).toContain("<rect width=\"100%\" height=\"100%\" fill=\"#fff\"/>");
+      expect(svg).toContain("fill=\"#123456\"");
+      expect(svg).toContain("M2,2h1v1h-1z");
+    });
+
+    it("defaults to the border and colours of the other renderers", () => {
+      expect(toSvgString(qr)).toBe(toSvgString(qr, { border: 4, lightColor: "#FFFFFF", darkColor: "#000000" }));
+    });
+
+    it("takes the border and any SVG colours as arguments", () => {
+      const svg = toSvgString(qr, 24, "white", "rgb(0, 49, 104)");
+
+      expect(svg).toContain(`viewBox="0 0 ${qr.size + 48} ${qr.size + 48}"`);
+      expect(svg).toContain("fill=\"white\"");
+      expect(svg).toContain("fill=\"rgb(0, 49, 104)\"");
+      expect(svg).toContain("M24,24h1v1h-1z");
+    });
+
+    it("rejects invalid options", () => {
+      expect(() => toSvgString(qr, { border: -1 })).toThrow(expect.objectContaining({ parameter: "border" }));
+      expect(() => toSvgString(qr, { lightColor: "white" })).toThrow(expect.objectContaining({
+        parameter: "lightColor",
+      }));
+    });
+  });
+
+  describe("toPng", () => {
+    it("encodes the scaled QR code with the colours as the palette", () => {
+      const png    = toPng(qr, { scale: 2, border: 1, lightColor: "#fff", darkColor: "#123456" });
+      const chunks = readChunks(png);
+      const width  = (qr.size + 2) * 2;
+
+      expect(Array.from(png.slice(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+      expect(chunks.IHDR.readUInt32BE(0)).toBe(width);
+      expect(chunks.IHDR.readUInt32BE(4)).toBe(width);
+      expect(Array.from(chunks.PLTE)).toEqual([255, 255, 255, 0x12, 0x34, 0x56]);
+
+      const rowLength = Math.ceil(width / 8) + 1;
+      const pixels    = inflateSync(chunks.IDAT);
+      const pixel     = (x: number, y: number): boolean => !!(pixels[y * rowLength + 1 + (x >> 3)] & (0x80 >> (x & 7)));
+
+      expect(pixels).toHaveLength(width * rowLength);
+      expect(pixel(1, 1)).toBe(false);
+      expect(pixel(2, 2)).toBe(true);
+      expect(pixel(3, 3)).toBe(true);
+      expect(pixel(2 * 3 + 2, 2 * 5 + 2)).toBe(qr.getModule(3, 5));
+    });
+
+    it("rejects invalid options", () => {
+      expect(() => toPng(qr, { scale: 0 })).toThrow(expect.objectContaining({ parameter: "scale" }));
+      expect(() => toPng(qr, { border: -1 })).toThrow(expect.objectContaining({ parameter: "border" }));
+      expect(() => toPng(qr, { darkColor: "black" })).toThrow(expect.objectContaining({
+        code:      "ERR_WEBEID_INVALID_PARAMETER",
+        parameter: "darkColor",
+      }));
+    });
+  });
+
+  describe("toPngDataUrl", () => {
+    it("returns the PNG as a data URL", () => {
+      const dataUrl = toPngDataUrl(qr);
+
+      expect(dataUrl).toMatch(/^data:image\/png;base64,/);
+      expect(new Uint8Array(Buffer.from(dataUrl.split(",")[1], "base64"))).toEqual(toPng(qr));
+    });
+  });
+
+  describe("drawToCanvas", () => {
+    it("resizes the canvas and fills the dark modules", () => {
+      const fillRect = jest.fn();
+      const context  = { fillStyle: "", fillRect };
+      const canvas   = { width: 0, height: 0, getContext: () => context } as unknown as HTMLCanvasElement;
+
+      drawToCanvas(qr, canvas, { scale: 3, border: 2, darkColor: "#00F" });
+
+      const darkModules = toModuleMatrix(qr).reduce((count, row) => count + row.filter(Boolean).length, 0);
+
+      expect(canvas.width).toBe((qr.size + 4) * 3);
+      expect(canvas.height).toBe((qr.size + 4) * 3);
+      expect(context.fillStyle).toBe("#00F");
+      expect(fillRect).toHaveBeenNthCalledWith(1, 0, 0, canvas.width, canvas.width);
+      expect(fillRect).toHaveBeenNthCalledWith(2, 6, 6, 3, 3);
+      expect(fillRect).toHaveBeenCalledTimes(darkModules + 1);
+    });
+
+    it("fails when the canvas has no 2D context", () => {
+      const canvas = { getContext: () => null } as unknown as HTMLCanvasElement;
+
+      expect(() => drawToCanvas(qr, canvas)).toThrow(expect.objectContaining({ parameter: "canvas" }));
+    });
+  });
+
+  describe("toTerminalString", () => {
+    it("prints two rows of modules per line", () => {
+      const lines = toTerminalString(qr, { border: 1 }).split("\n");
+
+      // The QR code has an odd number of rows, so the last line holds only the bottom border
+      expect(lines).toHaveLength((qr.size + 3) / 2);
+      expect(lines.every((line) => line.length == qr.size + 2)).toBe(true);
+      expect(lines[0]).toBe(" " + "▄".repeat(7) + lines[0].slice(8));
+      expect(lines[1].slice(0, 3)).toBe(" █ ");
+      expect(lines[lines.length - 1].trim()).toBe("");
+    });
+
+    it("paints the light modules when inverted", () => {
+      const [first, , third] = toTerminalString(qr, { invert: true }).split("\n");
+
+      expect(first).toBe("█".repeat(qr.size + 8));
+      expect(third.slice(0, 6)).toBe("████ ▄");
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { checkCompatibility, hasVersionProperties } from "../version";
+import { compareSemver, IdentifierDiff, parseSemver } from "../semver";
+import VersionInvalidError from "../../errors/VersionInvalidError";
+
+describe("parseSemver", () => {
+  it("parses the identifiers, pre-release and build metadata", () => {
+    expect(parseSemver("1.22.333-rc.1+build.5")).toEqual({
+      major:  1,
+      minor:  22,
+      patch:  333,
+      rc:     "rc.1",
+      build:  "build.5",
+      string: "1.22.333-rc.1+build.5",
+    });
+  });
+
+  it.each(["", "1.0", "01.0.0", "1.0.0.0", "v1.0.0"])("rejects %p", (version) => {
+    expect(() => parseSemver(version)).toThrow(VersionInvalidError);
+  });
+});
+
+describe("compareSemver", () => {
+  it("compares each identifier separately", () => {
+    expect(compareSemver(parseSemver("2.0.9"), parseSemver("1.1.9"))).toEqual({
+      major: IdentifierDiff.NEWER,
+      minor: IdentifierDiff.OLDER,
+      patch: IdentifierDiff.SAME,
+    });
+  });
+});
+
+describe("checkCompatibility", () => {
+  it("requires an update for components with an older major version", () => {
+    expect(checkCompatibility({ library: "2.0.0", extension: "1.9.9", nativeApp: "2.0.0" })).toEqual({
+      extension: true,
+      nativeApp: false,
+    });
+  });
+
+  it("doesn't require an update for older minor and patch versions or newer versions", () => {
+    expect(checkCompatibility({ library: "2.3.4", extension: "2.0.0", nativeApp: "3.0.0" })).toEqual({
+      extension: false,
+      nativeApp: false,
+    });
+  });
+
+  it("throws for a missing version", () => {
+    expect(() => checkCompatibility({ library: "1.0.0", extension: "1.0.0" })).toThrow(VersionInvalidError);
+  });
+});
+
+describe("hasVersionProperties", () => {
+  it("checks for the version properties", () => {
+    expect(hasVersionProperties({ nativeApp: "1.0.0" })).toBe(true);
+    expect(hasVersionProperties({ code: "ERR_WEBEID_UNKNOWN_ERROR" })).toBe(false);
+    expect(hasVersionProperties("1.0.0")).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import Action from "../models/Action";
+
+const actionToAckAction: { [key: string]: Action } = {
+  [Action.STATUS]:       Action.STATUS_ACK,
+  [Action.AUTHENTICATE]: Action.AUTHENTICATE_ACK,
+  [Action.SIGN]:         Action.SIGN_ACK,
+};
+
+const actionToSuccessAction: { [key: string]: Action } = {
+  [Action.STATUS]:       Action.STATUS_SUCCESS,
+  [Action.AUTHENTICATE]: Action.AUTHENTICATE_SUCCESS,
+  [Action.SIGN]:         Action.SIGN_SUCCESS,
+};
+
+const actionToFailureAction: { [key: string]: Action } = {
+  [Action.STATUS]:       Action.STATUS_FAILURE,
+  [Action.AUTHENTICATE]: Action.AUTHENTICATE_FAILURE,
+  [Action.SIGN]:         Action.SIGN_FAILURE,
+};
+
+const actionToProgressAction: { [key: string]: Action } = {
+  [Action.AUTHENTICATE]: Action.AUTHENTICATE_PROGRESS,
+  [Action.SIGN]:         Action.SIGN_PROGRESS,
+};
+
+export function getAckAction(action: string): Action {
+  return actionToAckAction[action] || Action.STATUS_ACK;
+}
+
+export function getSuccessAction(action: string): Action {
+  return actionToSuccessAction[action] || Action.STATUS_SUCCESS;
+}
+
+export function getFailureAction(action: string): Action {
+  return actionToFailureAction[action] || Action.STATUS_FAILURE;
+}
+
+export function getProgressAction(action: string): Action {
+  return actionToProgressAction[action] || Action.AUTHENTICATE_PROGRESS;
+}
+
+/**
+ * Strips the reply suffix from an action.
+ *
+ * @example
+ *   getInitialAction("web-eid:authenticate-ack") // "web-eid:authenticate"
+ */
+export function getInitialAction(action: string): string {
+  return action.replace(/-success$|-failure$|-ack$|-progress$/, "");
+}
@@ -0,0 +1,84 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Base45 encoding of binary data, see RFC 9285.
+ *
+ * The alphabet is the QR code alphanumeric character set, so the encoded data fits into an alphanumeric segment,
+ * which stores 5.5 bits per character instead of the 8 bits per character of a byte segment.
+ */
+const ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+export function encodeBase45(data: Uint8Array): string {
+  let result = "";
+
+  for (let i = 0; i < data.length; i += 2) {
+    if (i + 1 < data.length) {
+      const value = data[i] * 256 + data[i + 1];
+
+      result += ALPHABET[value % 45] + ALPHABET[Math.floor(value / 45) % 45] + ALPHABET[Math.floor(value / 2025)];
+    } else {
+      const value = data[i];
+
+      result += ALPHABET[value % 45] + ALPHABET[Math.floor(value / 45)];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * @throws Error when the string is not valid Base45
+ */
+export function decodeBase45(string: string): Uint8Array {
+  if (string.length % 3 == 1) {
+    throw new Error("Base45 string has an invalid length");
+  }
+
+  const result: number[] = [];
+
+  for (let i = 0; i < string.length; i += 3) {
+    const digits = Array.from(string.slice(i, i + 3), (char) => ALPHABET.indexOf(char));
+
+    if (digits.includes(-1)) {
+      throw new Error("Base45 string contains an invalid character");
+    }
+
+    const value = digits.reduceRight((total, digit) => total * 45 + digit, 0);
+
+    if (digits.length == 3) {
+      if (value > 0xFFFF) {
+        throw new Error("Base45 string contains an invalid triplet");
+      }
+
+      result.push(value >> 8, value & 0xFF);
+    } else {
+      if (value > 0xFF) {
+        throw new Error("Base45 string contains an invalid pair");
+      }
+
+      result.push(value);
+    }
+  }
+
+  return Uint8Array.from(result);
+}
@@ -0,0 +1,390 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Raw DEFLATE compression, see RFC 1951.
+ *
+ * The compressor finds repeated strings with hash chains and encodes them in a single block with the fixed Huffman
+ * codes, which compresses short texts such as intent URLs well without the overhead of dynamic code tables.
+ * The decompressor supports all block types, so it can also read data compressed by other implementations.
+ */
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+
+const LENGTH_EXTRA_BITS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+
+const DISTANCE_EXTRA_BITS = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH   = 3;
+const MAX_MATCH   = 258;
+const MAX_CHAIN   = 128;
+
+const END_OF_BLOCK = 256;
+
+interface Huffman {
+  /**
+   * Number of codes of each length.
+   */
+  counts: number[];
+
+  /**
+   * Symbols ordered by their codes.
+   */
+  symbols: number[];
+}
+
+class BitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private count  = 0;
+
+  /**
+   * Writes the value starting from the least significant bit, as DEFLATE stores everything but Huffman codes.
+   */
+  writeBits(value: number, count: number): void {
+    for (let i = 0; i < count; i++) {
+      this.buffer |= ((value >>> i) & 1) << this.count;
+
+      if (++this.count == 8) {
+        this.bytes.push(this.buffer);
+        this.buffer = 0;
+        this.count  = 0;
+      }
+    }
+  }
+
+  /**
+   * Writes the Huffman code starting from the most significant bit.
+   */
+  writeCode(code: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.writeBits((code >>> i) & 1, 1);
+    }
+  }
+
+  finish(): Uint8Array {
+    if (this.count > 0) {
+      this.bytes.push(this.buffer);
+    }
+
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class BitReader {
+  private position = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  readBits(count: number): number {
+    let value = 0;
+
+    for (let i = 0; i < count; i++) {
+      if (this.position >>> 3 >= this.data.length) {
+        throw new Error("Deflate data ends unexpectedly");
+      }
+
+      value |= ((this.data[this.position >>> 3] >>> (this.position & 7)) & 1) << i;
+
+      this.position++;
+    }
+
+    return value;
+  }
+
+  alignToByte(): void {
+    this.position = (this.position + 7) & ~7;
+  }
+}
+
+/**
+ * Index of the last base which is not greater than the value.
+ */
+function findBase(bases: number[], value: number): number {
+  let index = bases.length - 1;
+
+  while (bases[index] > value) index--;
+
+  return index;
+}
+
+function writeLiteralOrLength(writer: BitWriter, symbol: number): void {
+  if (symbol < 144) {
+    writer.writeCode(0x30 + symbol, 8);
+  } else if (symbol < 256) {
+    writer.writeCode(0x190 + symbol - 144, 9);
+  } else if (symbol < 280) {
+    writer.writeCode(symbol - 256, 7);
+  } else {
+    writer.writeCode(0xC0 + symbol - 280, 8);
+  }
+}
+
+function writeMatch(writer: BitWriter, length: number, distance: number): void {
+  const lengthIndex   = findBase(LENGTH_BASE, length);
+  const distanceIndex = findBase(DISTANCE_BASE, distance);
+
+  writeLiteralOrLength(writer, 257 + lengthIndex);
+  writer.writeBits(length - LENGTH_BASE[lengthIndex], LENGTH_EXTRA_BITS[lengthIndex]);
+
+  writer.writeCode(distanceIndex, 5);
+  writer.writeBits(distance - DISTANCE_BASE[distanceIndex], DISTANCE_EXTRA_BITS[distanceIndex]);
+}
+
+export function deflateRaw(data: Uint8Array): Uint8Array {
+  const writer = new BitWriter();
+
+  writer.writeBits(1, 1); // Final block
+  writer.writeBits(1, 2); // Fixed Huffman codes
+
+  // Most recent position of each 3-byte string and the previous position of the same string for each position
+  const head     = new Map<number, number>();
+  const previous = new Int32Array(data.length);
+
+  const hash = (position: number): number => (data[position] << 16) | (data[position + 1] << 8) | data[position + 2];
+
+  const insert = (position: number): void => {
+    if (position + MIN_MATCH > data.length) return;
+
+    const key = hash(position);
+
+    previous[position] = head.get(key) ?? -1;
+    head.set(key, position);
+  };
+
+  let position = 0;
+
+  while (position < data.length) {
+    let bestLength   = 0;
+    let bestDistance = 0;
+
+    if (position + MIN_MATCH <= data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - position);
+
+      let candidate = head.get(hash(position)) ?? -1;
+
+      for (let chain = 0; candidate >= 0 && position - candidate <= WINDOW_SIZE && chain < MAX_CHAIN; chain++) {
+        let length = 0;
+
+        while (length < maxLength && data[candidate + length] == data[position + length]) length++;
+
+        if (length > bestLength) {
+          bestLength   = length;
+          bestDistance = position - candidate;
+
+          if (length == maxLength) break;
+        }
+
+        candidate = previous[candidate];
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDistance);
+
+      for (const end = position + bestLength; position < end; position++) {
+        insert(position);
+      }
+    } else {
+      writeLiteralOrLength(writer, data[position]);
+      insert(position);
+      position++;
+    }
+  }
+
+  writeLiteralOrLength(writer, END_OF_BLOCK);
+
+  return writer.finish();
+}
+
+function buildHuffman(lengths: number[]): Huffman {
+  const counts  = new Array(16).fill(0);
+  const offsets = [0, 0];
+  const symbols: number[] = [];
+
+  for (const length of lengths) counts[length]++;
+
+  for (let length = 1; length < 15; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+
+  lengths.forEach((length, symbol) => {
+    if (length) symbols[offsets[length]++] = symbol;
+  });
+
+  return { counts, symbols };
+}
+
+function decodeSymbol(reader: BitReader, huffman: Huffman): number {
+  let code  = 0;
+  let first = 0;
+  let index = 0;
+
+  for (let length = 1; length < 16; length++) {
+    code |= reader.readBits(1);
+
+    const count = huffman.counts[length];
+
+    if (code - first < count) {
+      return huffman.symbols[index + code - first];
+    }
+
+    index += count;
+    first  = (first + count) << 1;
+    code <<= 1;
+  }
+
+  throw new Error("Deflate data contains an invalid Huffman code");
+}
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, symbol) => symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8),
+);
+
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+function readDynamicTables(reader: BitReader): [Huffman, Huffman] {
+  const literalCount    = reader.readBits(5) + 257;
+  const distanceCount   = reader.readBits(5) + 1;
+  const codeLengthCount = reader.readBits(4) + 4;
+
+  const codeLengthLengths = new Array(19).fill(0);
+
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+
+  const codeLengths = buildHuffman(codeLengthLengths);
+  const lengths: number[] = [];
+
+  while (lengths.length < literalCount + distanceCount) {
+    const symbol = decodeSymbol(reader, codeLengths);
+
+    if (symbol < 16) {
+      lengths.push(symbol);
+    } else if (symbol == 16) {
+      if (!lengths.length) {
+        throw new Error("Deflate data repeats a code length before the first one");
+      }
+
+      lengths.push(...new Array(3 + reader.readBits(2)).fill(lengths[lengths.length - 1]));
+    } else if (symbol == 17) {
+      lengths.push(...new Array(3 + reader.readBits(3)).fill(0));
+    } else {
+      lengths.push(...new Array(11 + reader.readBits(7)).fill(0));
+    }
+  }
+
+  if (lengths.length > literalCount + distanceCount) {
+    throw new Error("Deflate data contains too many code lengths");
+  }
+
+  return [buildHuffman(lengths.slice(0, literalCount)), buildHuffman(lengths.slice(literalCount))];
+}
+
+function inflateBlock(reader: BitReader, output: number[], literals: Huffman, distances: Huffman): void {
+  for (;;) {
+    const symbol = decodeSymbol(reader, literals);
+
+    if (symbol < END_OF_BLOCK) {
+      output.push(symbol);
+    } else if (symbol == END_OF_BLOCK) {
+      return;
+    } else {
+      const lengthIndex = symbol - 257;
+
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new Error("Deflate data contains an invalid length");
+      }
+
+      const length        = LENGTH_BASE[lengthIndex] + reader.readBits(LENGTH_EXTRA_BITS[lengthIndex]);
+      const distanceIndex = decodeSymbol(reader, distances);
+
+      if (distanceIndex >= DISTANCE_BASE.length) {
+        throw new Error("Deflate data contains an invalid distance");
+      }
+
+      const distance = DISTANCE_BASE[distanceIndex] + reader.readBits(DISTANCE_EXTRA_BITS[distanceIndex]);
+
+      if (distance > output.length) {
+        throw new Error("Deflate data refers to data before its start");
+      }
+
+      for (let i = 0; i < length; i++) {
+        output.push(output[output.length - distance]);
+      }
+    }
+  }
+}
+
+/**
+ * @throws Error when the data is not valid raw DEFLATE data
+ */
+export function inflateRaw(data: Uint8Array): Uint8Array {
+  const reader = new BitReader(data);
+  const output: number[] = [];
+
+  let isFinal = false;
+
+  while (!isFinal) {
+    isFinal = reader.readBits(1) == 1;
+
+    const type = reader.readBits(2);
+
+    if (type == 0) {
+      reader.alignToByte();
+
+      const length     = reader.readBits(16);
+      const complement = reader.readBits(16);
+
+      if ((length ^ 0xFFFF) != complement) {
+        throw new Error("Deflate data contains an invalid stored block length");
+      }
+
+      for (let i = 0; i < length; i++) {
+        output.push(reader.readBits(8));
+      }
+    } else if (type == 1) {
+      inflateBlock(reader, output, FIXED_LITERALS, FIXED_DISTANCES);
+    } else if (type == 2) {
+      inflateBlock(reader, output, ...readDynamicTables(reader));
+    } else {
+      throw new Error("Deflate data contains an invalid block type");
+    }
+  }
+
+  return Uint8Array.from(output);
+}
@@ -25,6 +25,7 @@ import OriginMismatchError from "../errors/OriginMismatchError";
 import ContextInsecureError from "../errors/ContextInsecureError";
 import ExtensionUnavailableError from "../errors/ExtensionUnavailableError";
 import ActionPendingError from "../errors/ActionPendingError";
+import ActionAbortedError from "../errors/ActionAbortedError";
 import NativeInvalidArgumentError from "../errors/NativeInvalidArgumentError";
 import NativeFatalError from "../errors/NativeFatalError";
 import NativeUnavailableError from "../errors/NativeUnavailableError";
@@ -41,29 +42,40 @@ import ActionTimeoutError from "../errors/ActionTimeoutError";
 import VersionInvalidError from "../errors/VersionInvalidError";
 import ServerTimeoutError from "../errors/ServerTimeoutError";
 import UnknownError from "../errors/UnknownError";
+import EnvironmentUnsupportedError from "../errors/EnvironmentUnsupportedError";
 import UserPinError from "../errors/UserPinError";
+import MissingParameterError from "../errors/MissingParameterError";
+import InvalidParameterError from "../errors/InvalidParameterError";
+import IntentSignatureInvalidError from "../errors/IntentSignatureInvalidError";
+import QrCodeNotRenderedError from "../errors/QrCodeNotRenderedError";
 
 const errorCodeToErrorClass: {[key: string]: any} = {
-  [ErrorCode.ERR_WEBEID_ACTION_PENDING]:          ActionPendingError,
-  [ErrorCode.ERR_WEBEID_ACTION_TIMEOUT]:          ActionTimeoutError,
-  [ErrorCode.ERR_WEBEID_CERTIFICATE_CHANGED]:     CertificateChangedError,
-  [ErrorCode.ERR_WEBEID_ORIGIN_MISMATCH]:         OriginMismatchError,
-  [ErrorCode.ERR_WEBEID_CONTEXT_INSECURE]:        ContextInsecureError,
-  [ErrorCode.ERR_WEBEID_EXTENSION_UNAVAILABLE]:   ExtensionUnavailableError,
-  [ErrorCode.ERR_WEBEID_NATIVE_INVALID_ARGUMENT]: NativeInvalidArgumentError,
-  [ErrorCode.ERR_WEBEID_NATIVE_FATAL]:            NativeFatalError,
-  [ErrorCode.ERR_WEBEID_NATIVE_UNAVAILABLE]:      NativeUnavailableError,
-  [ErrorCode.ERR_WEBEID_PROTOCOL_INSECURE]:       ProtocolInsecureError,
-  [ErrorCode.ERR_WEBEID_SERVER_REJECTED]:         ServerRejectedError,
-  [ErrorCode.ERR_WEBEID_SERVER_TIMEOUT]:          ServerTimeoutError,
-  [ErrorCode.ERR_WEBEID_TLS_CONNECTION_BROKEN]:   TlsConnectionBrokenError,
-  [ErrorCode.ERR_WEBEID_TLS_CONNECTION_INSECURE]: TlsConnectionInsecureError,
-  [ErrorCode.ERR_WEBEID_TLS_CONNECTION_WEAK]:     TlsConnectionWeakError,
-  [ErrorCode.ERR_WEBEID_USER_CANCELLED]:          UserCancelledError,
-  [ErrorCode.ERR_WEBEID_USER_TIMEOUT]:            UserTimeoutError,
-  [ErrorCode.ERR_WEBEID_VERSION_INVALID]:         VersionInvalidError,
-  [ErrorCode.ERR_WEBEID_VERSION_MISMATCH]:        VersionMismatchError,
-  [ErrorCode.ERR_WEBEID_USER_PIN_ERROR]:          UserPinError,
+  [ErrorCode.ERR_WEBEID_ACTION_PENDING]:           ActionPendingError,
+  [ErrorCode.ERR_WEBEID_ACTION_ABORTED]:           ActionAbortedError,
+  [ErrorCode.ERR_WEBEID_ACTION_TIMEOUT]:           ActionTimeoutError,
+  [ErrorCode.ERR_WEBEID_CERTIFICATE_CHANGED]:      CertificateChangedError,
+  [ErrorCode.ERR_WEBEID_ORIGIN_MISMATCH]:          OriginMismatchError,
+  [ErrorCode.ERR_WEBEID_CONTEXT_INSECURE]:         ContextInsecureError,
+  [ErrorCode.ERR_WEBEID_EXTENSION_UNAVAILABLE]:    ExtensionUnavailableError,
+  [ErrorCode.ERR_WEBEID_NATIVE_INVALID_ARGUMENT]:  NativeInvalidArgumentError,
+  [ErrorCode.ERR_WEBEID_NATIVE_FATAL]:             NativeFatalError,
+  [ErrorCode.ERR_WEBEID_NATIVE_UNAVAILABLE]:       NativeUnavailableError,
+  [ErrorCode.ERR_WEBEID_PROTOCOL_INSECURE]:        ProtocolInsecureError,
+  [ErrorCode.ERR_WEBEID_SERVER_REJECTED]:          ServerRejectedError,
+  [ErrorCode.ERR_WEBEID_SERVER_TIMEOUT]:           ServerTimeoutError,
+  [ErrorCode.ERR_WEBEID_TLS_CONNECTION_BROKEN]:    TlsConnectionBrokenError,
+  [ErrorCode.ERR_WEBEID_TLS_CONNECTION_INSECURE]:  TlsConnectionInsecureError,
+  [ErrorCode.ERR_WEBEID_TLS_CONNECTION_WEAK]:      TlsConnectionWeakError,
+  [ErrorCode.ERR_WEBEID_USER_CANCELLED]:           UserCancelledError,
+  [ErrorCode.ERR_WEBEID_USER_TIMEOUT]:             UserTimeoutError,
+  [ErrorCode.ERR_WEBEID_VERSION_INVALID]:          VersionInvalidError,
+  [ErrorCode.ERR_WEBEID_VERSION_MISMATCH]:         VersionMismatchError,
+  [ErrorCode.ERR_WEBEID_USER_PIN_ERROR]:           UserPinError,
+  [ErrorCode.ERR_WEBEID_ENVIRONMENT_UNSUPPORTED]:  EnvironmentUnsupportedError,
+  [ErrorCode.ERR_WEBEID_MISSING_PARAMETER]:        MissingParameterError,
+  [ErrorCode.ERR_WEBEID_INVALID_PARAMETER]:        InvalidParameterError,
+  [ErrorCode.ERR_WEBEID_INTENT_SIGNATURE_INVALID]: IntentSignatureInvalidError,
+  [ErrorCode.ERR_WEBEID_QR_CODE_NOT_RENDERED]:     QrCodeNotRenderedError,
 };
 
 export function serializeError(error: any): any {
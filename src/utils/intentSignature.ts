@@ -0,0 +1,106 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import IntentUrl from "../models/IntentUrl";
+import MissingParameterError from "../errors/MissingParameterError";
+import IntentSignatureInvalidError from "../errors/IntentSignatureInvalidError";
+
+export type IntentSignatureAlgorithm = string | RsaPssParams | EcdsaParams;
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  const binary = String.fromCharCode(...Array.from(new Uint8Array(buffer)));
+
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(string: string): Uint8Array {
+  const binary = atob(string.replace(/-/g, "+").replace(/_/g, "/"));
+
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * The canonical payload is percent-encoded, so it consists of ASCII characters only.
+ */
+function encode(payload: string): Uint8Array {
+  return Uint8Array.from(payload, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Calculates the signature or MAC of the canonical payload of an intent URL.
+ * Meant for servers running JavaScript and for tests, the signature is passed to authenticate or sign in the intentSignature option.
+ *
+ * @param intentUrl Parameters of the operation
+ * @param key Private key or HMAC secret key with the sign usage
+ * @param algorithm WebCrypto algorithm of the key, HMAC by default
+ *
+ * @returns Base64url-encoded signature
+ */
+export async function signIntentUrl(
+  intentUrl: IntentUrl,
+  key: CryptoKey,
+  algorithm: IntentSignatureAlgorithm = "HMAC",
+): Promise<string> {
+  const signature = await crypto.subtle.sign(algorithm, key, encode(intentUrl.canonicalPayload()));
+
+  return toBase64Url(signature);
+}
+
+/**
+ * Parses an intent URL and verifies its signature, for the authentication app and tests to reject modified intents.
+ *
+ * @param url The intent URL, for example the contents of a QR code
+ * @param key Public key or HMAC secret key with the verify usage
+ * @param algorithm WebCrypto algorithm of the key, HMAC by default
+ *
+ * @returns The verified parameters of the operation
+ *
+ * @throws MissingParameterError when the intent URL has no signature
+ * @throws IntentSignatureInvalidError when the signature does not match the parameters
+ */
+export async function verifyIntentUrl(
+  url: string,
+  key: CryptoKey,
+  algorithm: IntentSignatureAlgorithm = "HMAC",
+): Promise<IntentUrl> {
+  const intentUrl = IntentUrl.parse(url);
+
+  if (!intentUrl.signature) {
+    throw new MissingParameterError("signature missing from IntentUrl", "signature");
+  }
+
+  let signature: Uint8Array;
+
+  try {
+    signature = fromBase64Url(intentUrl.signature);
+  } catch (error) {
+    throw new IntentSignatureInvalidError("signature of the intent URL is not correctly base64url-encoded");
+  }
+
+  const isValid = await crypto.subtle.verify(algorithm, key, signature, encode(intentUrl.canonicalPayload()));
+
+  if (!isValid) {
+    throw new IntentSignatureInvalidError();
+  }
+
+  return intentUrl;
+}
@@ -0,0 +1,148 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import LogLevel from "../models/LogLevel";
+import LogEntry from "../models/LogEntry";
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface LoggerOptions {
+  /**
+   * Most verbose level which is logged.
+   *
+   * When not specified, defaults to silent.
+   */
+  level?: LogLevel;
+
+  /**
+   * Receives the log entries.
+   *
+   * When not specified, the entries are written to the browser console.
+   */
+  sink?: LogSink;
+}
+
+const levelOrder = [LogLevel.SILENT, LogLevel.ERROR, LogLevel.WARN, LogLevel.INFO, LogLevel.DEBUG];
+
+const secretKeyPattern = /^(headers|nonce|token|authToken|signature|authorization|cookie|set-cookie)$/i;
+
+const bearerPattern = /\b(Bearer|Basic)\s+[\w\-.~+/]+=*/gi;
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Returns a copy of the value with secrets replaced by [REDACTED].
+ */
+export function redact(value: unknown, seen = new WeakSet<Record<string, unknown>>()): any {
+  if (typeof value == "string") {
+    return value.replace(bearerPattern, `$1 ${REDACTED}`);
+  }
+
+  if (typeof value != "object" || value === null) {
+    return value;
+  }
+
+  const object = value as Record<string, unknown>;
+
+  if (seen.has(object)) {
+    return "[Circular]";
+  }
+
+  seen.add(object);
+
+  if (object instanceof Error) {
+    const { name, message, code } = object as Error & { code?: string };
+
+    return { name, message: redact(message, seen), code };
+  }
+
+  if (Array.isArray(object)) {
+    return object.map((item) => redact(item, seen));
+  }
+
+  return Object.fromEntries(
+    Object.entries(object).map(([key, item]) => [
+      key,
+      secretKeyPattern.test(key) ? REDACTED : redact(item, seen),
+    ])
+  );
+}
+
+function consoleSink({ level, message, data }: LogEntry): void {
+  switch (level) {
+    case LogLevel.ERROR: console.error(message, ...data); break;
+    case LogLevel.WARN:  console.warn(message, ...data);  break;
+    case LogLevel.INFO:  console.info(message, ...data);  break;
+
+    default: console.debug(message, ...data);
+  }
+}
+
+export class Logger {
+  private level: LogLevel;
+  private sink: LogSink;
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level || LogLevel.SILENT;
+    this.sink  = options.sink || consoleSink;
+  }
+
+  configure(options: LoggerOptions): void {
+    if (options.level) this.level = options.level;
+    if (options.sink)  this.sink  = options.sink;
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return level !== LogLevel.SILENT && levelOrder.indexOf(level) <= levelOrder.indexOf(this.level);
+  }
+
+  error(message: string, ...data: any[]): void {
+    this.log(LogLevel.ERROR, message, data);
+  }
+
+  warn(message: string, ...data: any[]): void {
+    this.log(LogLevel.WARN, message, data);
+  }
+
+  info(message: string, ...data: any[]): void {
+    this.log(LogLevel.INFO, message, data);
+  }
+
+  debug(message: string, ...data: any[]): void {
+    this.log(LogLevel.DEBUG, message, data);
+  }
+
+  private log(level: LogLevel, message: string, data: any[]): void {
+    if (!this.isEnabled(level)) return;
+
+    try {
+      this.sink({ level, message: redact(message), timestamp: Date.now(), data: redact(data) });
+    } catch (error) {
+      // Logging must never break an operation
+    }
+  }
+}
+
+/**
+ * Logger of the library, silent unless configured otherwise.
+ */
+export default new Logger();
@@ -0,0 +1,108 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import OperationMetrics from "../models/OperationMetrics";
+import Progress from "../models/Progress";
+import ProgressPhase from "../models/ProgressPhase";
+import Versions from "../models/Versions";
+import Clock from "../models/Clock";
+import TimeoutPhase from "../models/TimeoutPhase";
+import ErrorCode from "../errors/ErrorCode";
+import windowClock from "./clock";
+
+export type MetricsHandler = (metrics: OperationMetrics) => void;
+
+/**
+ * Collects the metrics of a single operation from its progress and outcome.
+ */
+export class MetricsRecorder {
+  private metrics: Omit<OperationMetrics, "completedAt" | "duration" | "success">;
+
+  private clock: Clock;
+
+  constructor(action: string, library: string, clock: Clock = windowClock) {
+    this.clock = clock;
+
+    this.metrics = {
+      action,
+      startedAt:       clock.now(),
+      pollingAttempts: [],
+      versions:        { library },
+    };
+  }
+
+  setTransport(name?: string): void {
+    this.metrics.transport = name;
+  }
+
+  setVersions({ extension, nativeApp }: Partial<Versions>): void {
+    Object.assign(this.metrics.versions, { extension, nativeApp });
+  }
+
+  /**
+   * Returns a progress callback which records the progress before passing it on to the callback.
+   */
+  trackProgress(onProgress?: (progress: Progress) => void): (progress: Progress) => void {
+    return (progress) => {
+      const now = this.clock.now();
+
+      this.metrics.requestId = progress.requestId;
+
+      switch (progress.phase) {
+        case ProgressPhase.ACKNOWLEDGED:      this.metrics.acknowledgedAt    = now; break;
+        case ProgressPhase.QR_CODE_DISPLAYED: this.metrics.qrCodeDisplayedAt = this.metrics.qrCodeDisplayedAt ?? now; break;
+        case ProgressPhase.POLLING:           this.metrics.pollingAttempts.push(now); break;
+      }
+
+      onProgress?.(progress);
+    };
+  }
+
+  succeed(): OperationMetrics {
+    return this.complete(true);
+  }
+
+  fail(error: Error & Partial<Versions> & { code?: ErrorCode; phase?: TimeoutPhase }): OperationMetrics {
+    const isKnownCode = !!error?.code && Object.values(ErrorCode).includes(error.code);
+
+    this.metrics.errorCode    = isKnownCode ? error.code : ErrorCode.ERR_WEBEID_UNKNOWN_ERROR;
+    this.metrics.timeoutPhase = error?.phase;
+
+    // Only status errors carry the versions
+    if (error?.extension || error?.nativeApp) {
+      this.setVersions(error);
+    }
+
+    return this.complete(false);
+  }
+
+  private complete(success: boolean): OperationMetrics {
+    const completedAt = this.clock.now();
+
+    return {
+      ...this.metrics,
+      completedAt,
+      duration: completedAt - this.metrics.startedAt,
+      success,
+    };
+  }
+}
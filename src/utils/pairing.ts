@@ -0,0 +1,140 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import ServerRejectedError from "../errors/ServerRejectedError";
+import Clock from "../models/Clock";
+import { toHttpResponse } from "./poller";
+import windowClock from "./clock";
+
+export interface PairingSession {
+  /**
+   * Short-lived ID of the pairing session, which the QR code refers to.
+   */
+  sessionId: string;
+
+  /**
+   * Time in milliseconds since the epoch, when the server expires the session.
+   */
+  expiresAt: number;
+}
+
+export interface PairingRequestOptions {
+  /**
+   * Headers to append to the requests.
+   */
+  headers?: {
+    [key: string]: string;
+  };
+
+  /**
+   * Signal for aborting the request.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Clock the expiry time of the session is calculated with.
+   */
+  clock?: Clock;
+}
+
+/**
+ * URL of a pairing session, <pairingUrl>/<sessionId>.
+ */
+export function getSessionUrl(pairingUrl: string, sessionId: string): string {
+  return `${pairingUrl.replace(/\/$/, "")}/${encodeURIComponent(sessionId)}`;
+}
+
+async function request(url: string, method: string, options: PairingRequestOptions, body?: { [key: string]: string }): Promise<any> {
+  const response = await fetch(url, {
+    method,
+    mode:        "cors",
+    credentials: "same-origin",
+    signal:      options.signal,
+    body:        body && JSON.stringify(body),
+    headers:     {
+      ...options.headers,
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+  });
+
+  if (!response.ok) {
+    const error = new ServerRejectedError(`pairing ${method} request failed with status ${response.status}`);
+
+    Object.assign(error, { response: await toHttpResponse(response) });
+
+    throw error;
+  }
+
+  return response.status == 204 ? undefined : await response.json();
+}
+
+function toSession(body: any, clock: Clock = windowClock): PairingSession {
+  if (typeof body?.sessionId != "string" || typeof body?.expiresIn != "number") {
+    throw new ServerRejectedError("pairing response must contain sessionId and expiresIn");
+  }
+
+  return {
+    sessionId: body.sessionId,
+    expiresAt: clock.now() + body.expiresIn * 1000,
+  };
+}
+
+/**
+ * Creates a pairing session for the intent URL with a POST request to the pairing endpoint.
+ *
+ * @example
+ *   // Example request payload
+ *   {"intentUrl": "authapp://start/?v=1&action=web-eid%3Aauthenticate&..."}
+ *
+ *   // Example response from the server, expiresIn is in seconds
+ *   {"sessionId": "<ID>", "expiresIn": 60}
+ */
+export async function createPairing(
+  pairingUrl: string,
+  intentUrl: string,
+  options: PairingRequestOptions = {},
+): Promise<PairingSession> {
+  return toSession(await request(pairingUrl, "POST", options, { intentUrl }), options.clock);
+}
+
+/**
+ * Replaces a pairing session with a new one with a POST request to <pairingUrl>/<sessionId>/refresh.
+ * The server should expire the old session, so the QR codes referring to it can no longer be used.
+ */
+export async function refreshPairing(
+  pairingUrl: string,
+  sessionId: string,
+  options: PairingRequestOptions = {},
+): Promise<PairingSession> {
+  return toSession(await request(getSessionUrl(pairingUrl, sessionId) + "/refresh", "POST", options), options.clock);
+}
+
+/**
+ * Expires a pairing session with a DELETE request to <pairingUrl>/<sessionId>.
+ */
+export async function expirePairing(
+  pairingUrl: string,
+  sessionId: string,
+  options: PairingRequestOptions = {},
+): Promise<void> {
+  await request(getSessionUrl(pairingUrl, sessionId), "DELETE", options);
+}
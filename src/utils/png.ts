@@ -0,0 +1,110 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { deflateRaw } from "./deflate";
+
+/**
+ * PNG encoding of two-colour images, see the PNG specification (ISO/IEC 15948).
+ *
+ * The image is stored with a two-entry palette and one bit per pixel, compressed into a zlib stream with deflateRaw.
+ */
+
+export type RgbColor = [number, number, number];
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+
+  return c >>> 0;
+});
+
+function crc32(bytes: number[]): number {
+  let crc = 0xffffffff;
+
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+
+  for (const byte of bytes) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+
+  return ((b << 16) | a) >>> 0;
+}
+
+function uint32(value: number): number[] {
+  return [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function chunk(type: string, data: number[]): number[] {
+  const typeAndData = [...Array.from(type, (char) => char.charCodeAt(0)), ...data];
+
+  return [...uint32(data.length), ...typeAndData, ...uint32(crc32(typeAndData))];
+}
+
+/**
+ * Encodes an image of rows of pixels, where true pixels are painted with the dark colour
+ * and false pixels with the light colour.
+ */
+export function encodeBilevelPng(rows: boolean[][], lightColor: RgbColor, darkColor: RgbColor): Uint8Array {
+  const height    = rows.length;
+  const width     = height ? rows[0].length : 0;
+  const rowLength = Math.ceil(width / 8);
+  const scanlines = new Uint8Array(height * (rowLength + 1));
+
+  rows.forEach((row, y) => {
+    // Each scanline starts with the filter type, 0 for no filtering
+    const offset = y * (rowLength + 1) + 1;
+
+    row.forEach((dark, x) => {
+      if (dark) scanlines[offset + (x >> 3)] |= 0x80 >> (x & 7);
+    });
+  });
+
+  const zlib = [
+    0x78, 0x01, // Deflate with a 32K window and no preset dictionary
+    ...Array.from(deflateRaw(scanlines)),
+    ...uint32(adler32(scanlines)),
+  ];
+
+  return Uint8Array.from([
+    ...SIGNATURE,
+    // Bit depth 1, colour type 3 (palette), default compression, filtering and no interlacing
+    ...chunk("IHDR", [...uint32(width), ...uint32(height), 1, 3, 0, 0, 0]),
+    ...chunk("PLTE", [...lightColor, ...darkColor]),
+    ...chunk("IDAT", zlib),
+    ...chunk("IEND", []),
+  ]);
+}
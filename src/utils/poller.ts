@@ -0,0 +1,201 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import HttpResponse from "../models/HttpResponse";
+import Clock from "../models/Clock";
+import MissingParameterError from "../errors/MissingParameterError";
+import ServerRejectedError from "../errors/ServerRejectedError";
+import ServerTimeoutError from "../errors/ServerTimeoutError";
+import UserCancelledError from "../errors/UserCancelledError";
+import UserPinError from "../errors/UserPinError";
+import UnknownError from "../errors/UnknownError";
+import windowClock from "./clock";
+
+export interface PollOptions {
+  /**
+   * Headers to append to the requests.
+   */
+  headers?: {
+    [key: string]: string;
+  };
+
+  /**
+   * Credentials mode of the requests.
+   *
+   * When not specified, cookies are only sent to the same origin.
+   */
+  credentials?: RequestCredentials;
+
+  /**
+   * Time in milliseconds to wait before the second request.
+   */
+  interval: number;
+
+  /**
+   * Factor by which the interval grows after each request.
+   */
+  backoffMultiplier: number;
+
+  /**
+   * Upper limit for the interval in milliseconds.
+   */
+  maxInterval: number;
+
+  /**
+   * Time in milliseconds after which polling gives up.
+   */
+  timeout: number;
+
+  /**
+   * Signal for stopping the polling.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called before each request with the number of the attempt, starting from 1.
+   */
+  onAttempt?: (attempt: number) => void;
+
+  /**
+   * Source of time and timers for the backoff and the timeout.
+   *
+   * When not specified, Date.now and the window timers are used.
+   */
+  clock?: Clock;
+}
+
+/**
+ * Status codes which mean that the outcome is not known yet.
+ */
+const retryStatusCodes = [202, 204, 502, 503, 504];
+
+function statusCodeToError(statusCode: number): Error {
+  switch (statusCode) {
+    case 400: return new MissingParameterError("A parameter is missing!");
+    case 403: return new ServerRejectedError();
+    case 408: return new ServerTimeoutError();
+    case 444: return new UserCancelledError();
+    case 449: return new UserPinError();
+
+    default: return new UnknownError("Error code: " + statusCode);
+  }
+}
+
+/**
+ * The members of a fetch Response which are read into an HttpResponse.
+ */
+export type FetchedResponse =
+  Pick<Response, "ok" | "redirected" | "status" | "statusText" | "type" | "url" | "text">
+  & { headers: { forEach(callback: (value: string, key: string) => void): void } };
+
+export async function toHttpResponse(response: FetchedResponse): Promise<HttpResponse> {
+  const headers: { [key: string]: string } = {};
+
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+
+  const text = await response.text();
+
+  let body: HttpResponse["body"] = text;
+
+  try {
+    body = JSON.parse(text);
+  } catch (error) {
+    // Plain text body
+  }
+
+  const { ok, redirected, status, statusText, type, url } = response;
+
+  return { headers, ok, redirected, status, statusText, type, url, body };
+}
+
+function sleep(milliseconds: number, clock: Clock, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clock.clearTimeout(timer);
+      reject(new DOMException("polling aborted", "AbortError"));
+    };
+
+    const timer = clock.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, milliseconds);
+
+    signal?.addEventListener("abort", onAbort);
+  });
+}
+
+/**
+ * Polls the URL with GET requests until the server reports the outcome of an operation.
+ *
+ * A 200 status code resolves with the response.
+ * Status codes 202, 204, 502, 503, 504 and network errors are retried with exponential backoff until the timeout.
+ * Other status codes reject with the matching Web eID error.
+ */
+export default async function poll(url: string, options: PollOptions): Promise<HttpResponse> {
+  const { clock = windowClock } = options;
+
+  const deadline = clock.now() + options.timeout;
+
+  let interval = options.interval;
+
+  for (let attempt = 1; ; attempt++) {
+    options.onAttempt?.(attempt);
+
+    let response: Response | undefined;
+
+    try {
+      response = await fetch(url, {
+        method:      "GET",
+        mode:        "cors",
+        credentials: options.credentials || "same-origin",
+        headers:     options.headers,
+        signal:      options.signal,
+      });
+    } catch (error) {
+      if (error?.name === "AbortError") throw error;
+    }
+
+    if (response?.status === 200) {
+      return await toHttpResponse(response);
+    }
+
+    if (response && !retryStatusCodes.includes(response.status)) {
+      const error = statusCodeToError(response.status);
+
+      Object.assign(error, { response: await toHttpResponse(response) });
+
+      throw error;
+    }
+
+    const remaining = deadline - clock.now();
+
+    if (remaining <= 0) {
+      throw new ServerTimeoutError();
+    }
+
+    await sleep(Math.min(interval, remaining), clock, options.signal);
+
+    interval = Math.min(interval * options.backoffMultiplier, options.maxInterval);
+  }
+}
@@ -0,0 +1,125 @@
+/*
+ * Copyright (c) Estonian Information System Authority
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import HttpResponse from "../models/HttpResponse";
+import { deserializeError } from "./errorSerializer";
+
+/**
+ * Outcome message sent by the server over the push channel.
+ *
+ * @example
+ *   {"result": "success", "body": {"name": "John Smith"}}
+ *   {"result": "failure", "error": {"code": "ERR_WEBEID_USER_CANCELLED"}}
+ */
+interface PushOutcome {
+  result: "success" | "failure";
+  body?:  HttpResponse["body"];
+  error?: any;
+}
+
+function parseOutcome(data: any): PushOutcome | undefined {
+  try {
+    const outcome = typeof data == "string" ? JSON.parse(data) : undefined;
+
+    if (outcome?.result === "success" || outcome?.result === "failure") {
+      return outcome;
+    }
+  } catch (error) {
+    // Not an outcome, for example a keep-alive comment
+  }
+
+  return undefined;
+}
+
+function toHttpResponse(url: string, outcome: PushOutcome): HttpResponse {
+  return {
+    headers:    {},
+    ok:         true,
+    redirected: false,
+    status:     200,
+    statusText: "OK",
+    type:       "basic",
+    url,
+    body:       outcome.body ?? "",
+  };
+}
+
+/**
+ * Waits for the outcome of an authentication app operation on a Server-Sent Events (https:)
+ * or WebSocket (wss:) channel.
+ *
+ * Resolves with the success response, rejects with the failure error
+ * and resolves with null when the channel closes before the outcome is known.
+ */
+export default function listen(url: string, signal?: AbortSignal): Promise<HttpResponse | null> {
+  return new Promise((resolve, reject) => {
+    let close = (): void => undefined;
+    let settled = false;
+
+    const onAbort = (): void => {
+      settled = true;
+      close();
+      reject(new DOMException("listening aborted", "AbortError"));
+    };
+
+    const settle = (outcome: PushOutcome | null): void => {
+      if (settled) return;
+
+      settled = true;
+      close();
+      signal?.removeEventListener("abort", onAbort);
+
+      if (!outcome) {
+        resolve(null);
+      } else if (outcome.result === "success") {
+        resolve(toHttpResponse(url, outcome));
+      } else {
+        reject(deserializeError(outcome.error || {}));
+      }
+    };
+
+    const onMessage = (event: MessageEvent): void => {
+      const outcome = parseOutcome(event.data);
+
+      if (outcome) settle(outcome);
+    };
+
+    if (url.startsWith("wss://")) {
+      const socket = new WebSocket(url);
+
+      close = (): void => socket.close();
+
+      socket.addEventListener("message", onMessage);
+      socket.addEventListener("close", () => settle(null));
+    } else {
+      const eventSource = new EventSource(url);
+
+      close = (): void => eventSource.close();
+
+      eventSource.addEventListener("message", onMessage);
+      // EventSource would reconnect on its own, polling is used instead
+      eventSource.addEventListener("error", () => settle(null));
+    }
+
+    signal?.addEventListener("abort", onAbort);
+  });
+}
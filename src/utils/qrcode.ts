@@ -22,6 +22,8 @@
  */
 
 import { QrCode } from "../models/qrcode/QrCode";
+import InvalidParameterError from "../errors/InvalidParameterError";
+import { encodeBilevelPng, RgbColor } from "./png";
 
 type bit = number;
 type int = number;
@@ -48,9 +50,24 @@ export function assert(cond: boolean): void {
     throw "Assertion error";
 }
 
-// Returns a string of SVG code for an image depicting the given QR Code, with the given number
-// of border modules. The string always uses Unix newlines (\n), regardless of the platform.
-export function toSvgString(qr: QrCode, border: number, lightColor: string, darkColor: string): string {
+// Returns a string of SVG code for an image depicting the given QR Code. The image scales to the size
+// it is displayed at, so the scale option does not apply. The string always uses Unix newlines (\n), regardless of the platform.
+// The border width in modules and the colours can also be given as arguments, which takes any SVG colours.
+export function toSvgString(qr: QrCode, options?: QrCodeRenderOptions): string;
+export function toSvgString(qr: QrCode, border: number, lightColor: string, darkColor: string): string;
+export function toSvgString(
+  qr: QrCode,
+  borderOrOptions: number | QrCodeRenderOptions = {},
+  lightColor = "#FFFFFF",
+  darkColor = "#000000",
+): string {
+  if (typeof borderOrOptions === "number")
+    return renderSvg(qr, borderOrOptions, lightColor, darkColor);
+  const options = getRenderOptions(borderOrOptions);
+  return renderSvg(qr, options.border, options.lightColor, options.darkColor);
+}
+
+function renderSvg(qr: QrCode, border: number, lightColor: string, darkColor: string): string {
   if (border < 0)
     throw "Border must be non-negative";
   const parts: Array<string> = [];
@@ -67,3 +84,159 @@ export function toSvgString(qr: QrCode, border: number, lightColor: string, dark
 	<path d="${parts.join(" ")}" fill="${darkColor}"/>
 </svg>`;
 }
+
+export interface QrCodeRenderOptions {
+  /**
+   * Size of a module in pixels.
+   *
+   * When not specified, defaults to 8.
+   */
+  scale?: number;
+
+  /**
+   * Width of the quiet zone around the QR code in modules.
+   *
+   * When not specified, defaults to 4, the minimum required by the QR code specification.
+   */
+  border?: number;
+
+  /**
+   * Colour of the light modules and the quiet zone, a #RGB or #RRGGBB hex colour.
+   *
+   * When not specified, defaults to #FFFFFF.
+   */
+  lightColor?: string;
+
+  /**
+   * Colour of the dark modules, a #RGB or #RRGGBB hex colour.
+   *
+   * When not specified, defaults to #000000.
+   */
+  darkColor?: string;
+}
+
+// Fills in the defaults of the render options and validates them.
+function getRenderOptions(options: QrCodeRenderOptions): Required<QrCodeRenderOptions> {
+  const { scale = 8, border = 4, lightColor = "#FFFFFF", darkColor = "#000000" } = options;
+
+  if (!Number.isInteger(scale) || scale < 1)
+    throw new InvalidParameterError("scale must be a positive integer", "scale");
+  if (!Number.isInteger(border) || border < 0)
+    throw new InvalidParameterError("border must be a non-negative integer", "border");
+
+  parseHexColor(lightColor, "lightColor");
+  parseHexColor(darkColor, "darkColor");
+
+  return { scale, border, lightColor, darkColor };
+}
+
+// Returns the red, green and blue components of a #RGB or #RRGGBB hex colour.
+function parseHexColor(color: string, parameter: string): RgbColor {
+  const [, hex] = /^#([\da-f]{3}|[\da-f]{6})$/i.exec(color) || [];
+
+  if (!hex)
+    throw new InvalidParameterError(`${parameter} ${color} must be a #RGB or #RRGGBB hex colour`, parameter);
+
+  const digits = hex.length == 3 ? hex.replace(/./g, "$&$&") : hex;
+
+  return [0, 2, 4].map((offset) => parseInt(digits.substr(offset, 2), 16)) as RgbColor;
+}
+
+// Returns the modules of the given QR Code surrounded by the given number of light border modules,
+// as rows from top to bottom, where true is a dark module.
+export function toModuleMatrix(qr: QrCode, border = 0): boolean[][] {
+  if (!Number.isInteger(border) || border < 0)
+    throw new InvalidParameterError("border must be a non-negative integer", "border");
+  const size = qr.size + border * 2;
+  return Array.from({ length: size }, (_, y) =>
+    Array.from({ length: size }, (_, x) => qr.getModule(x - border, y - border)),
+  );
+}
+
+// Resizes the given canvas to fit the QR Code and draws it, one square of scale pixels per module.
+export function drawToCanvas(
+  qr: QrCode,
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  options: QrCodeRenderOptions = {},
+): void {
+  const { scale, border, lightColor, darkColor } = getRenderOptions(options);
+  const size = (qr.size + border * 2) * scale;
+
+  canvas.width  = size;
+  canvas.height = size;
+
+  // The 2D contexts of both canvases provide fillStyle and fillRect
+  const context = (canvas as HTMLCanvasElement).getContext("2d");
+  if (!context)
+    throw new InvalidParameterError("canvas does not provide a 2D context", "canvas");
+
+  context.fillStyle = lightColor;
+  context.fillRect(0, 0, size, size);
+  context.fillStyle = darkColor;
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; x++) {
+      if (qr.getModule(x, y))
+        context.fillRect((x + border) * scale, (y + border) * scale, scale, scale);
+    }
+  }
+}
+
+// Returns the given QR Code as a PNG image, one square of scale pixels per module.
+export function toPng(qr: QrCode, options: QrCodeRenderOptions = {}): Uint8Array {
+  const { scale, border, lightColor, darkColor } = getRenderOptions(options);
+  const rows: boolean[][] = [];
+
+  for (const row of toModuleMatrix(qr, border)) {
+    const pixels = ([] as boolean[]).concat(...row.map((dark) => new Array<boolean>(scale).fill(dark)));
+    for (let i = 0; i < scale; i++)
+      rows.push(pixels);
+  }
+
+  return encodeBilevelPng(rows, parseHexColor(lightColor, "lightColor"), parseHexColor(darkColor, "darkColor"));
+}
+
+// Returns the given QR Code as a data:image/png URL, for example for an img element, an email or a PDF.
+export function toPngDataUrl(qr: QrCode, options: QrCodeRenderOptions = {}): string {
+  const png = toPng(qr, options);
+  let binary = "";
+  for (const byte of png)
+    binary += String.fromCharCode(byte);
+  return "data:image/png;base64," + btoa(binary);
+}
+
+export interface QrCodeTerminalOptions {
+  /**
+   * Width of the quiet zone around the QR code in modules.
+   *
+   * When not specified, defaults to 4, the minimum required by the QR code specification.
+   */
+  border?: number;
+
+  /**
+   * Whether the characters paint the light modules instead of the dark ones,
+   * for terminals with light text on a dark background.
+   *
+   * When not specified, the characters paint the dark modules, for terminals with dark text on a light background.
+   */
+  invert?: boolean;
+}
+
+// Returns the given QR Code as lines of Unicode half block characters, for printing in a terminal.
+// Each character holds two vertically adjacent modules, which keeps the modules square in most terminal fonts.
+// The string always uses Unix newlines (\n), regardless of the platform.
+export function toTerminalString(qr: QrCode, options: QrCodeTerminalOptions = {}): string {
+  const { border = 4, invert = false } = options;
+  const matrix = toModuleMatrix(qr, border);
+  const painted = (y: number, x: number): boolean => y < matrix.length && matrix[y][x] != invert;
+  const lines: Array<string> = [];
+  for (let y = 0; y < matrix.length; y += 2) {
+    let line = "";
+    for (let x = 0; x < matrix.length; x++) {
+      const top = painted(y, x);
+      const bottom = painted(y + 1, x);
+      line += top ? (bottom ? "█" : "▀") : (bottom ? "▄" : " ");
+    }
+    lines.push(line);
+  }
+  return lines.join("\n");
+}
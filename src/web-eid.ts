@@ -25,115 +25,110 @@ import config from "./config";
 import ErrorCode from "./errors/ErrorCode";
 
 import Action from "./models/Action";
+import ProgressPhase from "./models/ProgressPhase";
+import LogLevel from "./models/LogLevel";
+import ConcurrencyPolicy from "./models/ConcurrencyPolicy";
+import TimeoutPhase from "./models/TimeoutPhase";
 import AuthenticateOptions from "./models/AuthenticateOptions";
 import SignOptions from "./models/SignOptions";
 import Versions from "./models/Versions";
-import ResponseAuthenticateSuccess from "./models/ResponseAuthenticateSuccess";
-import ResponseStatusSuccess from "./models/ResponseStatusSuccess";
-
-import WebExtensionService from "./services/WebExtensionService";
-
-import * as version from "./utils/version";
-import VersionMismatchError from "./errors/VersionMismatchError";
+import Detection from "./models/Detection";
 import HttpResponse from "./models/HttpResponse";
-import MissingParameterError from "./errors/MissingParameterError";
-import defer from "./utils/defer";
-import ResponseSignSuccess from "./models/ResponseSignSuccess";
-
-
-const webExtensionService = new WebExtensionService();
-
-export async function status(): Promise<Versions> {
-  await defer(); // Give chrome a moment to load the extension content script
-
-  let statusResponse;
-
-  const library = config.VERSION;
-
-  const timeout = config.EXTENSION_HANDSHAKE_TIMEOUT + config.NATIVE_APP_HANDSHAKE_TIMEOUT;
-  const message = { action: Action.STATUS };
-
-  try {
-    statusResponse = await webExtensionService.send<ResponseStatusSuccess>(message, timeout);
-  } catch (error) {
-    error.library = library;
+import Transport from "./models/Transport";
+import IntentUrl from "./models/IntentUrl";
+import PairingUrl from "./models/PairingUrl";
+import { QrCode } from "./models/qrcode/QrCode";
+import { Ecc } from "./models/qrcode/Ecc";
 
-    throw error;
-  }
-
-  const versions: Versions = { library, ...statusResponse };
+import WebEidClient, { WebEidClientConfig } from "./services/WebEidClient";
+import ExtensionTransport from "./services/transports/ExtensionTransport";
+import QrCodeTransport from "./services/transports/QrCodeTransport";
 
-  const requiresUpdate = version.checkCompatibility(versions);
+import logger, { LoggerOptions } from "./utils/logger";
+import { MetricsHandler } from "./utils/metrics";
 
-  if (requiresUpdate.extension || requiresUpdate.nativeApp) {
-    throw new VersionMismatchError(undefined, versions, requiresUpdate);
-  }
 
-  return versions;
+/**
+ * Creates a Web eID client with its own configuration, logger and transports.
+ */
+export function createWebEidClient(clientConfig?: WebEidClientConfig): WebEidClient {
+  return new WebEidClient(clientConfig);
 }
 
-export async function authenticate(options: AuthenticateOptions): Promise<HttpResponse> {
-  await defer(); // Give chrome a moment to load the extension content script
+let defaultClient: WebEidClient | undefined;
 
-  if (typeof options != "object") {
-    throw new MissingParameterError("authenticate function requires an options object as parameter");
-  }
-
-  if (!options.getAuthChallengeUrl) {
-    throw new MissingParameterError("getAuthChallengeUrl missing from authenticate options");
-  }
-
-  if (!options.postAuthTokenUrl) {
-    throw new MissingParameterError("postAuthTokenUrl missing from authenticate options");
+/**
+ * The default client is created on first use, so that importing the library has no side effects.
+ */
+function getDefaultClient(): WebEidClient {
+  if (!defaultClient) {
+    defaultClient = createWebEidClient({ logger });
   }
 
-  const timeout = (
-    config.EXTENSION_HANDSHAKE_TIMEOUT +
-    config.NATIVE_APP_HANDSHAKE_TIMEOUT +
-    (options.serverRequestTimeout || config.DEFAULT_SERVER_REQUEST_TIMEOUT) * 2 +
-    (options.userInteractionTimeout || config.DEFAULT_USER_INTERACTION_TIMEOUT)
-  );
-
-  const message = { ...options, action: Action.AUTHENTICATE };
-
-  const result = await webExtensionService.send<ResponseAuthenticateSuccess>(message, timeout);
-
-  return result.response;
+  return defaultClient;
 }
 
-export async function sign(options: SignOptions): Promise<HttpResponse> {
-  await defer(); // Give chrome a moment to load the extension content script
-
-  if (typeof options != "object") {
-    throw new MissingParameterError("sign function requires an options object as parameter");
-  }
+export function status(): Promise<Versions> {
+  return getDefaultClient().status();
+}
 
-  if (!options.postPrepareSigningUrl) {
-    throw new MissingParameterError("postPrepareSigningUrl missing from sign options");
-  }
+/**
+ * Quickly checks which means of authentication are probably available, for example to choose which login buttons to show.
+ */
+export function detect(timeout?: number): Promise<Detection> {
+  return getDefaultClient().detect(timeout);
+}
 
-  if (!options.postFinalizeSigningUrl) {
-    throw new MissingParameterError("postFinalizeSigningUrl missing from sign options");
-  }
+export function authenticate(options: AuthenticateOptions): Promise<HttpResponse> {
+  return getDefaultClient().authenticate(options);
+}
 
-  const timeout = (
-    config.EXTENSION_HANDSHAKE_TIMEOUT +
-    config.NATIVE_APP_HANDSHAKE_TIMEOUT +
-    (options.serverRequestTimeout || config.DEFAULT_SERVER_REQUEST_TIMEOUT) * 2 +
-    (options.userInteractionTimeout || config.DEFAULT_USER_INTERACTION_TIMEOUT) * 2
-  );
+export function sign(options: SignOptions): Promise<HttpResponse> {
+  return getDefaultClient().sign(options);
+}
 
-  const message = { ...options, action: Action.SIGN };
+/**
+ * Registers a custom transport for delivering messages.
+ * Custom transports take precedence over the built-in extension, Android app and QR code transports,
+ * a transport with the name of a built-in transport replaces it.
+ */
+export function registerTransport(transport: Transport): void {
+  getDefaultClient().registerTransport(transport);
+}
 
-  const result = await webExtensionService.send<ResponseSignSuccess>(message, timeout);
+export function unregisterTransport(transport: Transport): void {
+  getDefaultClient().unregisterTransport(transport);
+}
 
-  return result.response;
+/**
+ * Configures the level and the sink of the library's log.
+ * Logging is silent by default, headers, nonces and tokens are always redacted.
+ */
+export function configureLogger(options: LoggerOptions): void {
+  getDefaultClient().configureLogger(options);
 }
 
-export function isAndroidDevice(): boolean {
-  return navigator.userAgent.toLowerCase().indexOf("android") > -1;
+/**
+ * Sets the handler which receives the metrics of every status, authenticate and sign call,
+ * or stops collecting metrics when called without a handler.
+ */
+export function configureMetrics(handler?: MetricsHandler): void {
+  getDefaultClient().configureMetrics(handler);
 }
 
-export { Action, ErrorCode };
+export {
+  Action,
+  ErrorCode,
+  ProgressPhase,
+  LogLevel,
+  ConcurrencyPolicy,
+  TimeoutPhase,
+};
+export { ExtensionTransport, QrCodeTransport };
+export { IntentUrl, PairingUrl, QrCode, Ecc };
 export { hasVersionProperties } from "./utils/version";
+export { isAndroidDevice } from "./utils/device";
+export { signIntentUrl, verifyIntentUrl } from "./utils/intentSignature";
+export { createPairing, refreshPairing, expirePairing } from "./utils/pairing";
+export { toSvgString, toModuleMatrix, drawToCanvas, toPng, toPngDataUrl, toTerminalString } from "./utils/qrcode";
 export { config };